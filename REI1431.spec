@@ -0,0 +1,3 @@
+; MとNの最大公約数を求める
+source REI1431.tsv
+expect GCM == 8
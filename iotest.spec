@@ -0,0 +1,10 @@
+; 入力した1行をそのまま出力する
+source iotest.tsv
+
+case 1行を読んで出力する
+in HELLO COMET
+out HELLO COMET
+expect GR0 == 11
+
+case 入力がなければ長さは-1になる
+expect LENGTH == -1
@@ -0,0 +1,5 @@
+; NUM1とNUM2の大きい方を数字1文字で出力する
+source kadai1.tsv
+out 6
+expect ANS == '6'
+expect GR1 == #0036
@@ -0,0 +1,7 @@
+; NUMの奇数だけを先頭に詰める
+source kadai2.tsv
+expect NUM[0] == 11
+expect NUM[1] == 3
+expect GR2 == 2
+expect GR1 == 5
+expect ZF == 1
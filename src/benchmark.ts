@@ -0,0 +1,54 @@
+import { ParsedSource } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { Compiler } from "./compiler";
+import { Machine } from "./machine";
+import { IO } from "./io";
+import { formatDiagnostic, hasError } from "./diagnostics";
+
+export interface BenchmarkResult {
+  name: string;
+  // 1回の実行で実行した命令の数
+  steps: number;
+  // 繰り返した中で最も速かった実行の時間
+  milliseconds: number;
+}
+
+// 入力は常にEOFとし、出力は捨てる
+const SILENT_IO = new IO(async () => null, async () => {});
+
+// アセンブルは計らず、実行だけをrepeat回繰り返して計る
+export async function runBenchmark(name: string, source: ParsedSource, repeat = 1): Promise<BenchmarkResult> {
+  let steps = 0;
+  let milliseconds = Infinity;
+  for (let i = 0; i < repeat; i++) {
+    const memory = new Memory();
+    const register = new Register();
+    const compiler = new Compiler(memory, 0, source, {});
+    const entryAddr = compiler.compile();
+    const diagnostics = compiler.diagnostics();
+    if (hasError(diagnostics)) {
+      throw new Error(diagnostics.filter(item => item.severity === 'error').map(formatDiagnostic).join("\n"));
+    }
+    const machine = new Machine(memory, register, SILENT_IO);
+    const begin = Date.now();
+    const result = await machine.execute(entryAddr);
+    if (result.error) {
+      throw result.error;
+    }
+    milliseconds = Math.min(milliseconds, Date.now() - begin);
+    steps = result.steps;
+  }
+  return { name, steps, milliseconds };
+}
+
+export function formatBenchmarkResults(results: BenchmarkResult[]): string[] {
+  const nameWidth = Math.max(4, ...results.map(result => result.name.length));
+  const lines = [`${'NAME'.padEnd(nameWidth)}  ${'STEPS'.padStart(10)}  ${'MS'.padStart(8)}  ${'STEPS/S'.padStart(12)}`];
+  results.forEach((result) => {
+    // 1ミリ秒未満で終わった場合も割り算できるようにする
+    const stepsPerSecond = Math.round(result.steps / Math.max(result.milliseconds, 1) * 1000);
+    lines.push(`${result.name.padEnd(nameWidth)}  ${String(result.steps).padStart(10)}  ${String(result.milliseconds).padStart(8)}  ${String(stepsPerSecond).padStart(12)}`);
+  });
+  return lines;
+}
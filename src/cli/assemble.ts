@@ -0,0 +1,31 @@
+import fs from 'fs';
+import path from 'path';
+
+import { assembleFiles } from './program';
+import { serializeObjectFile } from '../object_file';
+
+// comet2 assemble <source...> [-o <output.obj>]
+export async function assembleCommand(args: string[]): Promise<number> {
+  const fileNames: string[] = [];
+  let outputFileName: string | null = null;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-o') {
+      outputFileName = args[i + 1];
+      i++;
+    } else {
+      fileNames.push(args[i]);
+    }
+  }
+  if (fileNames.length === 0) {
+    console.error('ソースファイルを指定してください');
+    return 1;
+  }
+  const result = assembleFiles(fileNames);
+  if (!result) {
+    return 1;
+  }
+  const parsedPath = path.parse(fileNames[0]);
+  const fileName = outputFileName || path.join(parsedPath.dir, `${parsedPath.name}.obj`);
+  fs.writeFileSync(fileName, serializeObjectFile(result.object));
+  return 0;
+}
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+
+import { runBenchmark, formatBenchmarkResults, BenchmarkResult } from '../benchmark';
+import { readSources } from './program';
+
+// dist/cli から見たリポジトリのbenchmarkディレクトリ
+const BUNDLED_BENCHMARK_DIR = path.join(__dirname, '..', '..', 'benchmark');
+
+// comet2 benchmark [--repeat <回数>] [source...]
+export async function benchmarkCommand(args: string[]): Promise<number> {
+  const fileNames: string[] = [];
+  let repeat = 3;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--repeat') {
+      repeat = Number.parseInt(args[i + 1], 10);
+      i++;
+      if (!(repeat > 0)) {
+        console.error(`不正な回数 ${args[i]}`);
+        return 1;
+      }
+    } else {
+      fileNames.push(args[i]);
+    }
+  }
+  if (fileNames.length === 0) {
+    // ソースを指定しなければ同梱のプログラムをすべて計る
+    fs.readdirSync(BUNDLED_BENCHMARK_DIR)
+      .filter(fileName => fileName.endsWith('.tsv'))
+      .sort()
+      .forEach(fileName => fileNames.push(path.join(BUNDLED_BENCHMARK_DIR, fileName)));
+  }
+  const results: BenchmarkResult[] = [];
+  for (const fileName of fileNames) {
+    results.push(await runBenchmark(path.basename(fileName), readSources([fileName]), repeat));
+  }
+  formatBenchmarkResults(results).forEach(line => console.log(line));
+  return 0;
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import readline from 'readline';
+
+import { IO } from '../io';
+
+export interface LineReader {
+  // 入力の終わりに達した場合はnullを返す
+  readLine(): Promise<string | null>;
+  // 読み込み済みで、まだreadLineで渡していない行
+  pendingLines(): string[];
+  close(): void;
+}
+
+// 標準入力を1行ずつ順番に読む。読まれる前に届いた行は溜めておく
+export function createLineReader(): LineReader {
+  const lines: string[] = [];
+  const waiting: ((value: string | null) => void)[] = [];
+  let closed = false;
+  const readlineStdin = readline.createInterface({ input: process.stdin });
+  readlineStdin.on('line', (line: string) => {
+    const resolve = waiting.shift();
+    if (resolve) {
+      resolve(line);
+      return;
+    }
+    lines.push(line);
+  });
+  readlineStdin.on('close', () => {
+    closed = true;
+    waiting.splice(0).forEach(resolve => resolve(null));
+  });
+  return {
+    readLine: () => new Promise((resolve) => {
+      const line = lines.shift();
+      if (line !== undefined) {
+        resolve(line);
+      } else if (closed) {
+        resolve(null);
+      } else {
+        waiting.push(resolve);
+      }
+    }),
+    pendingLines: () => [...lines],
+    close: () => readlineStdin.close()
+  };
+}
+
+// ファイルを1行ずつ順番に読む
+function createFileLineReader(fileName: string): LineReader {
+  const lines = fs.readFileSync(fileName, 'utf-8').toString().split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    // 最後の改行の後は行として数えない
+    lines.pop();
+  }
+  return {
+    readLine: async () => {
+      const line = lines.shift();
+      return line === undefined ? null : line;
+    },
+    pendingLines: () => [...lines],
+    close: () => {}
+  };
+}
+
+// 標準入力(inputFileNameを指定すればそのファイル)を1行ずつIN命令に渡し、OUT命令の出力を標準出力に書く
+export function createConsoleIO(inputFileName: string | null = null): { io: IO, pendingLines(): string[], close(): void } {
+  const reader = inputFileName !== null ? createFileLineReader(inputFileName) : createLineReader();
+  const io = new IO(() => reader.readLine(), async (value: string) => {
+    process.stdout.write(`${value}\n`);
+  });
+  return { io, pendingLines: () => reader.pendingLines(), close: () => reader.close() };
+}
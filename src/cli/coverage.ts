@@ -0,0 +1,55 @@
+import fs from 'fs';
+
+import { Coverage, mergeCoverage, parseLcov, renderLcov, renderCoverageHtml } from '../coverage';
+
+// ファイル名が.htmlで終わればHTML、それ以外はLCOVで書く。HTMLには読めるソースだけを載せる
+export function writeCoverage(fileName: string, coverage: Coverage) {
+  if (!fileName.endsWith('.html')) {
+    fs.writeFileSync(fileName, renderLcov(coverage));
+    return;
+  }
+  fs.writeFileSync(fileName, renderCoverageHtml(coverage, readCoveredSources(coverage)));
+}
+
+function readCoveredSources(coverage: Coverage): { [fileName: string]: string } {
+  const sources: { [fileName: string]: string } = {};
+  coverage.files
+    .filter(file => fs.existsSync(file.fileName))
+    .forEach((file) => {
+      sources[file.fileName] = fs.readFileSync(file.fileName, 'utf-8').toString();
+    });
+  return sources;
+}
+
+// comet2 coverage <lcov...> [--html] [-o <output>]
+// 複数回の実行で書き出したLCOVを1つにまとめる
+export async function coverageCommand(args: string[]): Promise<number> {
+  const fileNames: string[] = [];
+  let outputFileName: string | null = null;
+  let html = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-o') {
+      outputFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--html') {
+      html = true;
+    } else {
+      fileNames.push(args[i]);
+    }
+  }
+  if (fileNames.length === 0) {
+    console.error('LCOVのファイルを指定してください');
+    return 1;
+  }
+  const coverage = mergeCoverage(fileNames.map(fileName => parseLcov(fs.readFileSync(fileName, 'utf-8').toString())));
+  if (outputFileName && outputFileName.endsWith('.html')) {
+    html = true;
+  }
+  const text = html ? renderCoverageHtml(coverage, readCoveredSources(coverage)) : renderLcov(coverage);
+  if (outputFileName) {
+    fs.writeFileSync(outputFileName, text);
+  } else {
+    process.stdout.write(text);
+  }
+  return 0;
+}
@@ -0,0 +1,16 @@
+import { DebugAdapter } from '../debug_adapter';
+import { serveMessages, writeMessage } from '../message_stream';
+
+// comet2 dap
+// 標準入出力でDebug Adapter Protocolのメッセージをやり取りする。標準出力にはメッセージ以外を書かない
+export async function dapCommand(): Promise<number> {
+  const adapter = new DebugAdapter(message => writeMessage(process.stdout, message));
+  await serveMessages(process.stdin, (message) => {
+    adapter.handle(message).then(() => {
+      if (message.command === 'disconnect') {
+        process.stdin.destroy();
+      }
+    }).catch(e => console.error(e.message));
+  });
+  return 0;
+}
@@ -0,0 +1,265 @@
+import { Debugger, DebuggerStop } from '../debugger';
+import { IO } from '../io';
+import { Memory } from '../memory';
+import { Register } from '../register';
+import { GENERAL_REGISTER_NAMES, ParsedSource, parseConst, toWordHex } from '../utils';
+import { disassembleAt, symbolNamesOf, formatInstruction } from '../disassembler';
+import { ObjectFile } from '../object_file';
+import { loadProgram } from './program';
+import { createLineReader } from './console_io';
+
+const HELP = `break <位置>        (b)  ブレークポイントを設定する
+delete <位置>       (d)  ブレークポイントを削除する
+info                (i)  ブレークポイントの一覧
+continue            (c)  ブレークポイントまで実行する。Ctrl-Cで止める
+step                (s)  1命令実行する
+next                (n)  1命令実行する。CALLはサブルーチンから戻るまで実行する
+finish              (f)  今のサブルーチンから戻るまで実行する
+back                (rs) 1命令巻き戻す
+rcontinue           (rc) 直前のブレークポイントまで巻き戻す
+rwatch <位置>       (rw) その位置に書き込んだ命令の前まで巻き戻す
+print [レジスタ]    (p)  レジスタ・フラグを表示する
+set <対象> <値>          レジスタ・フラグ・メモリの値を変える
+memory <位置> [語数] (x)  メモリの内容を表示する
+list [位置]         (l)  ソースを表示する
+quit                (q)  終了する
+位置はラベル名、#0012 のような番地、12 や prog.cas:12 のような行番号で指定する
+空行を入力すると直前のコマンドを繰り返す`;
+
+const FLAG_NAMES = Object.freeze(['OF', 'SF', 'ZF']);
+
+// 止まった位置の前に付ける、止まった理由
+const STOP_PREFIXES: { [reason: string]: string } = Object.freeze({ breakpoint: 'ブレークポイント ', pause: '中断 ' });
+
+export interface DebugSession {
+  debugger: Debugger;
+  memory: Memory;
+  register: Register;
+  object: ObjectFile;
+  source: ParsedSource;
+}
+
+function parseValue(text: string | undefined): number {
+  const value = parseConst(text || '');
+  if (value === null) {
+    throw new Error(`不正な値 ${text}`);
+  }
+  return value;
+}
+
+function describeStop(session: DebugSession, stop: DebuggerStop): string[] {
+  if (stop.reason === 'halted') {
+    return ['プログラムが終了した'];
+  }
+  if (stop.reason === 'history-start') {
+    return ['これ以上巻き戻せない', ...describeStop(session, { reason: 'step', address: stop.address })];
+  }
+  const { debugger: debug, memory, object, source } = session;
+  const instruction = formatInstruction(disassembleAt(memory, stop.address, symbolNamesOf(object.symbols), new Set(object.relocations)));
+  const sourceIndex = debug.sourceIndexAt(stop.address);
+  const sourceText = sourceIndex !== null ? `  ; ${source[sourceIndex].lineNumber}: ${source[sourceIndex].text.trim()}` : '';
+  const prefix = STOP_PREFIXES[stop.reason] || '';
+  return [`${prefix}PC: ${toWordHex(stop.address)} ${instruction}${sourceText}`];
+}
+
+function printRegister(register: Register, name: string | undefined): string[] {
+  if (!name) {
+    return register.toString().split("\n");
+  }
+  const upperName = name.toUpperCase();
+  if (upperName === 'PC') {
+    return [`PC: ${toWordHex(register.getProgramCounter())}`];
+  }
+  if (upperName === 'SP') {
+    return [`SP: ${toWordHex(register.getStackPointer())}`];
+  }
+  if (upperName === 'FR' || FLAG_NAMES.includes(upperName)) {
+    return [`OF: ${register.getOverflowFlag()} SF: ${register.getSignFlag()} ZF: ${register.getZeroFlag()}`];
+  }
+  if (GENERAL_REGISTER_NAMES.includes(upperName)) {
+    const value = register.getGRAt(Number(upperName.substring(2)));
+    return [`${upperName}: ${toWordHex(value)} (${value}, ${value >= 0x8000 ? value - 0x10000 : value})`];
+  }
+  throw new Error(`未定義のレジスタ ${name}`);
+}
+
+function setValue(session: DebugSession, target: string | undefined, valueText: string | undefined): string[] {
+  if (!target) {
+    throw new Error('対象を指定してください');
+  }
+  const { register, memory } = session;
+  const upperName = target.toUpperCase();
+  const value = parseValue(valueText);
+  if (upperName === 'PC') {
+    register.setProgramCounter(value);
+  } else if (upperName === 'SP') {
+    register.setStackPointer(value);
+  } else if (FLAG_NAMES.includes(upperName)) {
+    if (value !== 0 && value !== 1) {
+      throw new Error(`フラグの値は0か1 ${valueText}`);
+    }
+    const flags = { OF: register.getOverflowFlag(), SF: register.getSignFlag(), ZF: register.getZeroFlag(), [upperName]: value };
+    register.setFlags(flags.OF, flags.SF, flags.ZF);
+  } else if (GENERAL_REGISTER_NAMES.includes(upperName)) {
+    register.setGRAt(Number(upperName.substring(2)), value);
+  } else {
+    const address = session.debugger.resolveLocation(target);
+    memory.setValueAt(address, value);
+    return [`${toWordHex(address)}: ${toWordHex(value)}`];
+  }
+  return printRegister(register, upperName);
+}
+
+function dumpMemory(session: DebugSession, location: string | undefined, countText: string | undefined): string[] {
+  if (!location) {
+    throw new Error('位置を指定してください');
+  }
+  const begin = session.debugger.resolveLocation(location);
+  const count = countText ? Number.parseInt(countText, 10) : 8;
+  if (!(count > 0)) {
+    throw new Error(`不正な語数 ${countText}`);
+  }
+  const result: string[] = [];
+  for (let offset = 0; offset < count; offset += 8) {
+    const words: string[] = [];
+    for (let i = offset; i < Math.min(count, offset + 8); i += 1) {
+      words.push(toWordHex(session.memory.peekValueAt(begin + i) || 0));
+    }
+    result.push(`${toWordHex((begin + offset) & 0xFFFF)}: ${words.join(' ')}`);
+  }
+  return result;
+}
+
+function listSource(session: DebugSession, location: string | undefined): string[] {
+  const { debugger: debug, register, source } = session;
+  if (source.length === 0) {
+    throw new Error('ソースが読み込まれていない');
+  }
+  const address = location ? debug.resolveLocation(location) : register.getProgramCounter();
+  return debug.sourceAround(address).map(({ sourceIndex, current }) => {
+    const line = source[sourceIndex];
+    return `${current ? '=>' : '  '} ${String(line.lineNumber).padStart(4)}  ${line.text}`;
+  });
+}
+
+/**
+ * デバッガのコマンドを1つ実行し、表示する行を返す。quitの場合はnullを返す
+ */
+export async function executeDebugCommand(session: DebugSession, commandLine: string): Promise<string[] | null> {
+  const [command, ...args] = commandLine.trim().split(/\s+/);
+  const debug = session.debugger;
+  switch (command) {
+    case 'break':
+    case 'b':
+      return [`ブレークポイント ${toWordHex(debug.addBreakpoint(args[0] || ''))}`];
+    case 'delete':
+    case 'd':
+      return [`削除 ${toWordHex(debug.removeBreakpoint(args[0] || ''))}`];
+    case 'info':
+    case 'i':
+      return debug.breakpointList().map(address => `ブレークポイント ${toWordHex(address)}`);
+    case 'continue':
+    case 'c':
+      return describeStop(session, await debug.continue());
+    case 'step':
+    case 's':
+      return describeStop(session, await debug.step());
+    case 'next':
+    case 'n':
+      return describeStop(session, await debug.stepOver());
+    case 'finish':
+    case 'f':
+      return describeStop(session, await debug.finish());
+    case 'back':
+    case 'rs':
+      return describeStop(session, await debug.stepBack());
+    case 'rcontinue':
+    case 'rc':
+      return describeStop(session, await debug.reverseContinue());
+    case 'rwatch':
+    case 'rw':
+      return describeStop(session, await debug.reverseUntilWritten(args[0] || ''));
+    case 'print':
+    case 'p':
+      return printRegister(session.register, args[0]);
+    case 'set':
+      return setValue(session, args[0], args[1]);
+    case 'memory':
+    case 'x':
+      return dumpMemory(session, args[0], args[1]);
+    case 'list':
+    case 'l':
+      return listSource(session, args[0]);
+    case 'help':
+    case 'h':
+      return HELP.split("\n");
+    case 'quit':
+    case 'q':
+      return null;
+    default:
+      throw new Error(`未定義のコマンド ${command}`);
+  }
+}
+
+// comet2 debug <source... | program.obj>
+export async function debugCommand(args: string[]): Promise<number> {
+  if (args.length === 0) {
+    console.error('ファイルを指定してください');
+    return 1;
+  }
+  const program = loadProgram(args);
+  if (!program) {
+    return 1;
+  }
+  const {
+    memory, register, entryAddr, object, source, addrToSourceIndexMap
+  } = program;
+  // コマンドとIN命令の入力は同じ標準入力から順番に読む
+  const reader = createLineReader();
+  const io = new IO(() => {
+    process.stdout.write('入力> ');
+    return reader.readLine();
+  }, async (value: string) => {
+    console.log(value);
+  });
+  const session: DebugSession = {
+    debugger: new Debugger(memory, register, io, entryAddr, object.symbols, source, addrToSourceIndexMap),
+    memory,
+    register,
+    object,
+    source
+  };
+  console.log(describeStop(session, { reason: 'step', address: entryAddr }).join("\n"));
+  let lastCommand = '';
+  try {
+    while (true) {
+      process.stdout.write('(comet2) ');
+      const line = await reader.readLine();
+      if (line === null) {
+        break;
+      }
+      const commandLine = line.trim() || lastCommand;
+      if (!commandLine) {
+        continue;
+      }
+      lastCommand = commandLine;
+      // 実行中のCtrl-Cは実行を止めてプロンプトに戻る。プロンプトではそのまま終了する
+      const onInterrupt = () => session.debugger.pause();
+      process.on('SIGINT', onInterrupt);
+      try {
+        const output = await executeDebugCommand(session, commandLine);
+        if (output === null) {
+          break;
+        }
+        output.forEach(item => console.log(item));
+      } catch (e) {
+        console.error(e.message);
+      } finally {
+        process.removeListener('SIGINT', onInterrupt);
+      }
+    }
+  } finally {
+    reader.close();
+  }
+  return 0;
+}
@@ -0,0 +1,45 @@
+import fs from 'fs';
+
+import { Memory } from '../memory';
+import { Compiler } from '../compiler';
+import { formatDiagnostic, hasError } from '../diagnostics';
+import { createListing, renderListingText, renderListingHtml } from '../listing';
+import { readSources } from './program';
+
+// comet2 listing <source...> [--html] [-o <output>]
+export async function listingCommand(args: string[]): Promise<number> {
+  const fileNames: string[] = [];
+  let outputFileName: string | null = null;
+  let html = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-o') {
+      outputFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--html') {
+      html = true;
+    } else {
+      fileNames.push(args[i]);
+    }
+  }
+  if (fileNames.length === 0) {
+    console.error('ソースファイルを指定してください');
+    return 1;
+  }
+  const source = readSources(fileNames);
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  compiler.compile();
+  const diagnostics = compiler.diagnostics();
+  diagnostics.forEach(diagnostic => console.error(formatDiagnostic(diagnostic)));
+  if (hasError(diagnostics)) {
+    return 1;
+  }
+  const listing = createListing(compiler, memory, source);
+  const text = html ? renderListingHtml(listing, fileNames.join(' ')) : renderListingText(listing);
+  if (outputFileName) {
+    fs.writeFileSync(outputFileName, text);
+  } else {
+    process.stdout.write(text);
+  }
+  return 0;
+}
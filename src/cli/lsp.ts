@@ -0,0 +1,17 @@
+import { LanguageServer } from '../language_server';
+import { serveMessages, writeMessage } from '../message_stream';
+
+// comet2 lsp
+// 標準入出力でLanguage Server Protocolのメッセージをやり取りする。標準出力にはメッセージ以外を書かない
+export async function lspCommand(): Promise<number> {
+  const server = new LanguageServer(message => writeMessage(process.stdout, message));
+  await serveMessages(process.stdin, (message) => {
+    server.handle(message);
+    if (server.exitCode() !== null) {
+      process.stdin.destroy();
+    }
+  });
+  const exitCode = server.exitCode();
+  // exitを受けずに入力が終わった場合も異常終了とする
+  return exitCode !== null ? exitCode : 1;
+}
@@ -0,0 +1,104 @@
+import fs from 'fs';
+
+import { Memory } from '../memory';
+import { Register } from '../register';
+import { Compiler } from '../compiler';
+import { ParsedSource, MemoryAddress, parseSource } from '../utils';
+import { formatDiagnostic, hasError } from '../diagnostics';
+import { ObjectFile, OBJECT_FILE_FORMAT, OBJECT_FILE_VERSION, createObjectFile, parseObjectFile, loadObjectFile } from '../object_file';
+import { MachineSnapshot, parseSnapshot } from '../snapshot';
+
+export interface LoadedProgram {
+  memory: Memory;
+  register: Register;
+  entryAddr: MemoryAddress;
+  object: ObjectFile;
+  // オブジェクトファイルから読み込んでソースが見つからない場合は空になる
+  source: ParsedSource;
+  addrToSourceIndexMap: { [key: number]: number };
+}
+
+export function readSources(fileNames: string[]): ParsedSource {
+  // 複数のファイルを指定した場合は1つのプログラムとして結合する
+  return fileNames
+    .map(fileName => parseSource(fs.readFileSync(fileName, 'utf-8').toString(), fileName))
+    .reduce((result, lines) => result.concat(lines), []);
+}
+
+export function isObjectFileName(fileName: string): boolean {
+  return fileName.endsWith('.obj');
+}
+
+// ソースをアセンブルしてオブジェクトファイルを作る。誤りがあれば診断を表示してnullを返す
+export function assembleFiles(fileNames: string[]): { object: ObjectFile, source: ParsedSource, addrToSourceIndexMap: { [key: number]: number } } | null {
+  const source = readSources(fileNames);
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  compiler.compile();
+  const diagnostics = compiler.diagnostics();
+  diagnostics.forEach(diagnostic => console.error(formatDiagnostic(diagnostic)));
+  if (hasError(diagnostics)) {
+    return null;
+  }
+  return { object: createObjectFile(compiler, memory, source), source, addrToSourceIndexMap: compiler.addrToSourceIndexMap() };
+}
+
+// オブジェクトファイルに記録されたソースが読めれば、デバッグ表示のために読み込んでおく
+function sourceFromObject(object: ObjectFile): { source: ParsedSource, addrToSourceIndexMap: { [key: number]: number } } {
+  const fileNames = object.sourceMap
+    .map(entry => entry.fileName)
+    .filter((fileName, index, list): fileName is string => fileName !== null && list.indexOf(fileName) === index);
+  if (fileNames.length === 0 || !fileNames.every(fileName => fs.existsSync(fileName))) {
+    return { source: [], addrToSourceIndexMap: {} };
+  }
+  const source = readSources(fileNames);
+  const addrToSourceIndexMap: { [key: number]: number } = {};
+  object.sourceMap.forEach(({ address, fileName, line }) => {
+    const sourceIndex = source.findIndex(item => item.fileName === fileName && item.lineNumber === line);
+    if (sourceIndex >= 0) {
+      addrToSourceIndexMap[address] = sourceIndex;
+    }
+  });
+  return { source, addrToSourceIndexMap };
+}
+
+// ソースファイルまたはオブジェクトファイルを読み込み、実行できる状態にする
+export function loadProgram(fileNames: string[]): LoadedProgram | null {
+  let object: ObjectFile;
+  let source: ParsedSource;
+  let addrToSourceIndexMap: { [key: number]: number };
+  if (fileNames.length === 1 && isObjectFileName(fileNames[0])) {
+    object = parseObjectFile(fs.readFileSync(fileNames[0], 'utf-8').toString());
+    ({ source, addrToSourceIndexMap } = sourceFromObject(object));
+  } else {
+    const result = assembleFiles(fileNames);
+    if (!result) {
+      return null;
+    }
+    ({ object, source, addrToSourceIndexMap } = result);
+  }
+  const memory = new Memory();
+  const register = new Register();
+  const entryAddr = loadObjectFile(object, memory, register);
+  return { memory, register, entryAddr, object, source, addrToSourceIndexMap };
+}
+
+// スナップショットに記録されたプログラムを読み込む。メモリとレジスタは restoreSnapshot で戻す
+export function loadSnapshotProgram(fileName: string): { program: LoadedProgram, snapshot: MachineSnapshot } {
+  const snapshot = parseSnapshot(fs.readFileSync(fileName, 'utf-8').toString());
+  // プログラムが記録されていなければ、ラベルやソースの位置なしで実行する
+  const object: ObjectFile = snapshot.program || {
+    format: OBJECT_FILE_FORMAT,
+    version: OBJECT_FILE_VERSION,
+    entry: snapshot.registers.PC,
+    segments: [],
+    symbols: [],
+    relocations: [],
+    sourceMap: []
+  };
+  const { source, addrToSourceIndexMap } = sourceFromObject(object);
+  const program: LoadedProgram = {
+    memory: new Memory(), register: new Register(), entryAddr: object.entry, object, source, addrToSourceIndexMap
+  };
+  return { program, snapshot };
+}
@@ -0,0 +1,277 @@
+import fs from 'fs';
+
+import { Machine, StopReason, StopSignal } from '../machine';
+import { Tracer, TraceFilter, InstructionKind } from '../tracer';
+import { Profiler, createProfile, renderProfileReport, renderAnnotatedSource } from '../profiler';
+import { symbolNamesOf } from '../disassembler';
+import { protectCode } from '../object_file';
+import { parseConst, toWordHex } from '../utils';
+import { createStateDump, renderStateDump, DumpFormat } from '../dump';
+import { createCoverage } from '../coverage';
+import { MachineSnapshot, createSnapshot, restoreSnapshot, serializeSnapshot } from '../snapshot';
+import { LoadedProgram, loadProgram, loadSnapshotProgram } from './program';
+import { createConsoleIO } from './console_io';
+import { writeCoverage } from './coverage';
+
+// runの終了コード
+export const EXIT_CODE = Object.freeze({
+  SUCCESS: 0,
+  USAGE: 1,
+  ASSEMBLE_ERROR: 2,
+  RUNTIME_ERROR: 3,
+  STEP_LIMIT: 4,
+  TIMEOUT: 5,
+  INFINITE_LOOP: 6,
+  // Ctrl-Cで中断した場合
+  ABORTED: 130,
+});
+
+const STOP_MESSAGES: { [key in StopReason]: string } = Object.freeze({
+  halted: '',
+  'step-limit': '実行する命令数が上限を超えた',
+  timeout: '実行時間が上限を超えた',
+  aborted: '中断した',
+  'infinite-loop': '無限ループを検出した',
+  'runtime-error': '実行時エラー',
+});
+
+const STOP_EXIT_CODES: { [key in StopReason]: number } = Object.freeze({
+  halted: EXIT_CODE.SUCCESS,
+  'step-limit': EXIT_CODE.STEP_LIMIT,
+  timeout: EXIT_CODE.TIMEOUT,
+  aborted: EXIT_CODE.ABORTED,
+  'infinite-loop': EXIT_CODE.INFINITE_LOOP,
+  'runtime-error': EXIT_CODE.RUNTIME_ERROR,
+});
+
+// AbortControllerのない古いNode.jsでは、中断のフラグとリスナーだけを持つもので代わりにする
+function createStopController(): { signal: StopSignal, abort(): void } {
+  if (typeof AbortController !== 'undefined') {
+    return new AbortController();
+  }
+  let listeners: (() => void)[] = [];
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) => {
+      listeners.push(listener);
+    },
+    removeEventListener: (type: 'abort', listener: () => void) => {
+      listeners = listeners.filter(item => item !== listener);
+    }
+  };
+  return {
+    signal,
+    abort: () => {
+      if (!signal.aborted) {
+        signal.aborted = true;
+        listeners.forEach(listener => listener());
+      }
+    }
+  };
+}
+
+function parseAddress(text: string | undefined): number {
+  const value = parseConst(text || '');
+  if (value === null) {
+    throw new Error(`不正な番地 ${text}`);
+  }
+  return value;
+}
+
+/**
+ * comet2 run <source... | program.obj> [オプション]
+ * comet2 run --restore <snapshot> [オプション]
+ *
+ * --input <file>             IN命令で標準入力の代わりにファイルを読む
+ * --max-steps <命令数>        実行する命令数の上限
+ * --timeout <ミリ秒>          実行時間の上限(入力を待つ間も数える)
+ * --detect-loop              同じ状態に2度なる無限ループを検出して止める
+ * --strict                   未初期化の語の読み出しと命令の領域への書き込みを実行時エラーにする
+ * --dump <registers|memory|all>  終了後のレジスタ・メモリを出力する
+ * --dump-format <text|json>  --dumpの形式
+ * --dump-file <file>         --dumpの出力先(省略時は標準エラー出力)
+ * --trace <file> [--trace-from <番地>] [--trace-to <番地>] [--trace-kind <種類,...>]
+ * --profile <file>           命令数の多い行の順位と、命令の種類・条件分岐ごとの集計を書く
+ * --profile-source <file>    ソースの各行に命令数とサイクル数を付けて書く
+ * --coverage <file>          実行した行と条件分岐の方向をLCOV(.htmlならHTML)で書く
+ * --snapshot <file>          正常終了以外で止まったら、その時点の状態をスナップショットとして書く
+ * --restore <file>           スナップショットの状態から続きを実行する
+ *
+ * 標準出力にはOUT命令の出力だけを書き、診断やエラーは標準エラー出力に書く
+ */
+export async function runCommand(args: string[]): Promise<number> {
+  const fileNames: string[] = [];
+  let traceFileName: string | null = null;
+  const filter: TraceFilter = {};
+  let strict = false;
+  let inputFileName: string | null = null;
+  let maxSteps = Infinity;
+  let timeout = Infinity;
+  let detectLoop = false;
+  let dumpParts: string[] = [];
+  let dumpFormat: DumpFormat = 'text';
+  let dumpFileName: string | null = null;
+  let profileFileName: string | null = null;
+  let profileSourceFileName: string | null = null;
+  let coverageFileName: string | null = null;
+  let snapshotFileName: string | null = null;
+  let restoreFileName: string | null = null;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--strict') {
+      strict = true;
+    } else if (args[i] === '--input') {
+      inputFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--max-steps') {
+      maxSteps = Number.parseInt(args[i + 1], 10);
+      i++;
+      if (!(maxSteps > 0)) {
+        console.error(`不正な命令数 ${args[i]}`);
+        return EXIT_CODE.USAGE;
+      }
+    } else if (args[i] === '--timeout') {
+      timeout = Number.parseInt(args[i + 1], 10);
+      i++;
+      if (!(timeout > 0)) {
+        console.error(`不正な時間 ${args[i]}`);
+        return EXIT_CODE.USAGE;
+      }
+    } else if (args[i] === '--detect-loop') {
+      detectLoop = true;
+    } else if (args[i] === '--dump') {
+      dumpParts = (args[i + 1] || '').split(',');
+      i++;
+      if (dumpParts.some(part => !['registers', 'memory', 'all'].includes(part))) {
+        console.error(`不正なダンプの対象 ${args[i]}`);
+        return EXIT_CODE.USAGE;
+      }
+    } else if (args[i] === '--dump-format') {
+      dumpFormat = args[i + 1] as DumpFormat;
+      i++;
+      if (dumpFormat !== 'text' && dumpFormat !== 'json') {
+        console.error(`不正なダンプの形式 ${args[i]}`);
+        return EXIT_CODE.USAGE;
+      }
+    } else if (args[i] === '--dump-file') {
+      dumpFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--trace') {
+      traceFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--trace-from') {
+      filter.from = parseAddress(args[i + 1]);
+      i++;
+    } else if (args[i] === '--trace-to') {
+      filter.to = parseAddress(args[i + 1]);
+      i++;
+    } else if (args[i] === '--profile') {
+      profileFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--profile-source') {
+      profileSourceFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--coverage') {
+      coverageFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--snapshot') {
+      snapshotFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--restore') {
+      restoreFileName = args[i + 1];
+      i++;
+    } else if (args[i] === '--trace-kind') {
+      filter.kinds = (args[i + 1] || '').split(',') as InstructionKind[];
+      i++;
+    } else {
+      fileNames.push(args[i]);
+    }
+  }
+  if (fileNames.length === 0 && restoreFileName === null) {
+    console.error('ファイルを指定してください');
+    return EXIT_CODE.USAGE;
+  }
+  if (fileNames.length > 0 && restoreFileName !== null) {
+    console.error('--restoreとファイルは同時に指定できません');
+    return EXIT_CODE.USAGE;
+  }
+  let program: LoadedProgram | null;
+  let snapshot: MachineSnapshot | null = null;
+  if (restoreFileName !== null) {
+    ({ program, snapshot } = loadSnapshotProgram(restoreFileName));
+  } else {
+    program = loadProgram(fileNames);
+  }
+  if (!program) {
+    return EXIT_CODE.ASSEMBLE_ERROR;
+  }
+  const { io, pendingLines, close } = createConsoleIO(inputFileName);
+  const machine = new Machine(program.memory, program.register, io);
+  if (snapshot) {
+    restoreSnapshot(snapshot, machine, program.memory, program.register);
+  }
+  if (strict) {
+    // 未初期化の語の読み出しと、命令の領域への書き込みを実行時エラーにする
+    program.memory.setStrictMode(true);
+    protectCode(program.object, program.memory);
+  }
+  const tracer = traceFileName ? new Tracer(filter, symbolNamesOf(program.object.symbols), new Set(program.object.relocations)) : null;
+  machine.setTracer(tracer);
+  const profiler = profileFileName || profileSourceFileName || coverageFileName ? new Profiler() : null;
+  machine.setProfiler(profiler);
+  const controller = createStopController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  let exitCode: number = EXIT_CODE.SUCCESS;
+  try {
+    const limits = { maxSteps, timeout, signal: controller.signal, detectLoop };
+    // スナップショットからは、保存した時点のPCと命令数から続ける
+    const result = snapshot ? await machine.resume(limits) : await machine.execute(program.entryAddr, limits);
+    if (snapshotFileName && result.reason !== 'halted') {
+      const saved = createSnapshot(machine, program.memory, program.register, { inputs: pendingLines(), program: program.object });
+      fs.writeFileSync(snapshotFileName, serializeSnapshot(saved));
+    }
+    if (result.error) {
+      console.error(result.error.message);
+    } else if (result.reason !== 'halted') {
+      console.error(`${STOP_MESSAGES[result.reason]} PC: #${toWordHex(result.programCounter)} (${result.steps}命令)`);
+    }
+    exitCode = STOP_EXIT_CODES[result.reason];
+  } catch (e) {
+    console.error(e.message);
+    exitCode = EXIT_CODE.RUNTIME_ERROR;
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    close();
+    if (tracer && traceFileName) {
+      // 拡張子が.jsonlならJSON Lines、それ以外は読みやすい形式で書く
+      fs.writeFileSync(traceFileName, traceFileName.endsWith('.jsonl') ? tracer.toJSONLines() : tracer.toText());
+    }
+    if (profiler) {
+      // 途中で止まった場合もそれまでの計測を書く
+      const profile = createProfile(profiler, program.addrToSourceIndexMap, program.object.code || null);
+      if (profileFileName) {
+        fs.writeFileSync(profileFileName, renderProfileReport(profile, program.source));
+      }
+      if (profileSourceFileName) {
+        fs.writeFileSync(profileSourceFileName, renderAnnotatedSource(profile, program.source));
+      }
+      if (coverageFileName) {
+        writeCoverage(coverageFileName, createCoverage(profiler, program.memory, program.source, program.addrToSourceIndexMap, program.object.code || []));
+      }
+    }
+  }
+  if (dumpParts.length > 0) {
+    const all = dumpParts.includes('all');
+    const dump = createStateDump(program.memory, program.register, {
+      registers: all || dumpParts.includes('registers'),
+      memory: all || dumpParts.includes('memory')
+    });
+    const text = renderStateDump(dump, dumpFormat);
+    if (dumpFileName !== null) {
+      fs.writeFileSync(dumpFileName, text);
+    } else {
+      process.stderr.write(text);
+    }
+  }
+  return exitCode;
+}
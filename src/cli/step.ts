@@ -0,0 +1,80 @@
+import readline from 'readline';
+
+import { Machine } from '../machine';
+import { toWordHex } from '../utils';
+import { disassemble, disassembleAt, symbolNamesOf, formatDisassembledLine, formatInstruction } from '../disassembler';
+import { IO } from '../io';
+import { memorySegmentsOf } from '../object_file';
+import { loadProgram } from './program';
+
+// 1行入力するごとに1命令ずつ実行し、メモリとレジスタの内容を表示する
+export async function stepCommand(args: string[]): Promise<number> {
+  const program = loadProgram(args);
+  if (!program) {
+    return 1;
+  }
+  const {
+    memory, register, entryAddr, object, source, addrToSourceIndexMap
+  } = program;
+  const symbols = symbolNamesOf(object.symbols);
+  const relocations = new Set(object.relocations);
+  console.log('コンパイル完了');
+
+  function debugDump() {
+    memorySegmentsOf(memory).forEach(({ address, words }) => {
+      disassemble(memory, address, address + words.length - 1, symbols, relocations).forEach((line) => {
+        const sourceIndex = addrToSourceIndexMap[line.address];
+        const sourceText = sourceIndex !== undefined ? `  ; ${source[sourceIndex].text.trim()}` : '';
+        console.log(`${formatDisassembledLine(line)}${sourceText}`);
+      });
+    });
+    console.log(register.toString());
+  }
+  debugDump();
+
+  let inputFunc: ((value: string | null) => void) | null;
+  const io = new IO(() => {
+    return new Promise((resolve) => {
+      inputFunc = resolve;
+    });
+  }, async (value: string) => {
+    console.log(value);
+  });
+
+  const controller = new Machine(memory, register, io).executeInteractive(entryAddr);
+  const readlineStdin = readline.createInterface(process.stdin, process.stdout);
+
+  readlineStdin.on("line", function (value: string) {
+    (async () => {
+      if (inputFunc) {
+        // 入力処理の捕捉
+        inputFunc(value.trim());
+        inputFunc = null;
+        return;
+      }
+
+      try {
+        const pc = register.getProgramCounter();
+        console.log(`PC: ${toWordHex(pc)} ${formatInstruction(disassembleAt(memory, pc, symbols, relocations))}`);
+        const result = await controller.executeNext();
+        debugDump();
+        console.log('---');
+        if (result === false) {
+          readlineStdin.close();
+          console.log('処理終了');
+          debugDump();
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+  });
+  readlineStdin.on("close", function () {
+    if (inputFunc) {
+      // 入力待ちのまま閉じられた場合はEOFとして扱う
+      inputFunc(null);
+      inputFunc = null;
+    }
+  });
+  return 0;
+}
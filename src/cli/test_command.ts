@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+
+import { Memory } from '../memory';
+import { Compiler } from '../compiler';
+import { Profiler } from '../profiler';
+import { Coverage, createCoverage, mergeCoverage } from '../coverage';
+import { parseTestSpec, runTestSpec, formatTestResults } from '../test_runner';
+import { readSources } from './program';
+import { writeCoverage } from './coverage';
+
+// comet2 test <spec...> [--coverage <file>]
+// --coverageを指定すると、すべてのケースで実行した行と条件分岐の方向をまとめて書く
+export async function testCommand(args: string[]): Promise<number> {
+  const specFileNames: string[] = [];
+  let coverageFileName: string | null = null;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--coverage') {
+      coverageFileName = args[i + 1];
+      i++;
+    } else {
+      specFileNames.push(args[i]);
+    }
+  }
+  if (specFileNames.length === 0) {
+    console.error('テストの仕様のファイルを指定してください');
+    return 1;
+  }
+  let passedCount = 0;
+  let totalCount = 0;
+  const coverages: Coverage[] = [];
+  for (const specFileName of specFileNames) {
+    const spec = parseTestSpec(fs.readFileSync(specFileName, 'utf-8').toString(), specFileName);
+    // ソースは仕様のファイルがある場所からの相対パスで探す
+    const source = readSources(spec.sources.map(fileName => path.resolve(path.dirname(specFileName), fileName)));
+    const profiler = coverageFileName ? new Profiler() : null;
+    const results = await runTestSpec(spec, source, profiler);
+    console.log(specFileName);
+    formatTestResults(results).forEach(line => console.log(line));
+    passedCount += results.filter(result => result.passed).length;
+    totalCount += results.length;
+    if (profiler) {
+      // ケースと同じ番地に配置して、番地とソースの行の対応を調べる
+      const memory = new Memory();
+      const compiler = new Compiler(memory, 0, source, {});
+      compiler.compile();
+      coverages.push(createCoverage(profiler, memory, source, compiler.addrToSourceIndexMap(), compiler.codeLocations()));
+    }
+  }
+  console.log(`${totalCount} 件中 ${passedCount} 件成功`);
+  if (coverageFileName) {
+    writeCoverage(coverageFileName, mergeCoverage(coverages));
+  }
+  return passedCount === totalCount ? 0 : 1;
+}
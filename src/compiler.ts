@@ -1,116 +1,366 @@
-import { MemoryAddress, MACHINE_INSTRUCTION_NUMBER, WordValue, parseConst } from "./utils";
+import { MemoryAddress, WordValue, ParsedSource, SourceLine, parseConst, parseStringConst, isLabelName } from "./utils";
 import { Memory } from "./memory";
 import { LineAnalyzer } from "./line_analyzer";
+import { expandMacroInstruction } from "./macro";
+import { AssembleError, Diagnostic, DiagnosticCode, DiagnosticSeverity } from "./diagnostics";
+
+interface ProgramModule {
+  name: string;
+  beginAddr: MemoryAddress;
+  entryLabel: string | null;
+  sourceIndex: number;
+}
+
+export interface ProgramSymbol {
+  name: string;
+  // STARTのラベルは空文字列、それ以外は定義されたモジュールの名前
+  moduleName: string;
+  address: MemoryAddress;
+  sourceIndex: number;
+}
+
+export interface LabelReference {
+  address: MemoryAddress;
+  label: string;
+  moduleName: string;
+  sourceIndex: number;
+}
+
+export interface SourceLocation {
+  address: MemoryAddress;
+  // その行が生成した語の数。リテラルは含まない
+  size: number;
+}
+
+export interface LiteralEntry {
+  address: MemoryAddress;
+  values: WordValue[];
+  text: string;
+  // リテラルを使っている行
+  sourceIndex: number;
+  // リテラルを配置したENDの行
+  poolSourceIndex: number;
+}
+
+interface PendingLiteral {
+  targetAddress: MemoryAddress;
+  values: WordValue[];
+  text: string;
+  sourceIndex: number;
+}
 
 export class Compiler {
-  private labelAddrsToReplace: [MemoryAddress, string][] = [];
+  private labelReferences: LabelReference[] = [];
   private lineAnalyzer = new LineAnalyzer();
-  private literalValues: [MemoryAddress, WordValue][] = [];
+  private literalValues: PendingLiteral[] = [];
+  private literalEntries: LiteralEntry[] = [];
+  private sourceLocationList: SourceLocation[] = [];
+  private codeLocationList: SourceLocation[] = [];
   private addressCounter: number = 0;
   private memoryAddressToSourceindexMap: { [key: number]: number } = {};
+  private modules: ProgramModule[] = [];
+  private currentModuleName = '';
+  private currentSourceIndex = 0;
+  private moduleLabelToAddrMap: { [key: string]: { [key: string]: MemoryAddress } } = { '': {} };
+  private moduleLabelToSourceIndexMap: { [key: string]: { [key: string]: number } } = { '': {} };
+  private diagnosticList: Diagnostic[] = [];
+  private relocationAddrs: MemoryAddress[] = [];
 
   constructor(
     private memory: Memory,
     private beginAddr: number,
-    private source: string[][],
+    private source: ParsedSource,
     private labelToAddrMap: { [key: string]: MemoryAddress }) {
   }
 
-  compile() {
+  compile(): MemoryAddress {
     this.parseAndAllocate();
+    this.solveEntries();
     this.solveLabels();
-    this.allocateLiteralValues();
+    this.checkUnusedLabels();
+    return this.entryAddr();
+  }
+
+  // DSで確保した領域やリテラルも含めた、プログラムの終わりの次の番地
+  endAddr(): MemoryAddress {
+    return this.addressCounter;
+  }
+
+  entryAddr(): MemoryAddress {
+    if (this.modules.length === 0) {
+      return this.beginAddr;
+    }
+    const entryAddr = this.labelToAddrMap[this.modules[0].name];
+    return entryAddr !== undefined ? entryAddr : this.modules[0].beginAddr;
   }
 
   addrToSourceIndexMap(): { [key: number]: number } {
     return { ...this.memoryAddressToSourceindexMap };
   }
 
+  symbols(): ProgramSymbol[] {
+    const globalSymbols = this.modules
+      .filter(({ name }) => this.labelToAddrMap[name] !== undefined)
+      .map(({ name, sourceIndex }) => ({ name, moduleName: '', address: this.labelToAddrMap[name], sourceIndex }));
+    const localSymbols = Object.keys(this.moduleLabelToAddrMap).map((moduleName) => {
+      const labels = this.moduleLabelToAddrMap[moduleName];
+      return Object.keys(labels).map(name => ({
+        name,
+        moduleName,
+        address: labels[name],
+        sourceIndex: this.moduleLabelToSourceIndexMap[moduleName][name]
+      }));
+    });
+    return localSymbols.reduce((result, items) => result.concat(items), globalSymbols);
+  }
+
+  // ソースの各行の先頭番地と語数。添字はソースの行の添字
+  sourceLocations(): SourceLocation[] {
+    return [...this.sourceLocationList];
+  }
+
+  // 機械語命令を置いた番地の範囲。DCやDS、リテラルは含まない
+  codeLocations(): SourceLocation[] {
+    return [...this.codeLocationList];
+  }
+
+  literals(): LiteralEntry[] {
+    return [...this.literalEntries];
+  }
+
+  // ラベルを参照している箇所。STARTのオペランドも含む
+  references(): LabelReference[] {
+    const entryReferences = this.modules
+      .filter(({ entryLabel }) => entryLabel !== null)
+      .map(({ name, entryLabel, sourceIndex }) => ({ address: -1, label: entryLabel as string, moduleName: name, sourceIndex }));
+    return [...this.labelReferences, ...entryReferences].sort((a, b) => a.sourceIndex - b.sourceIndex);
+  }
+
+  // 番地を値として持つ語の位置。別の番地に配置し直す際に値を補正する
+  relocations(): MemoryAddress[] {
+    return [...this.relocationAddrs].sort((a, b) => a - b);
+  }
+
+  // 誤りのあった行も読み飛ばして最後までアセンブルするため、結果はここから取り出す
+  diagnostics(): Diagnostic[] {
+    return [...this.diagnosticList];
+  }
+
   private parseAndAllocate() {
     let currentAddress = this.beginAddr;
     // まずラベルの対応付け、DC, DSを処理する
-    this.source.forEach((args, sourceIndex) => {
-      this.lineAnalyzer.load(args);
-      const label = this.lineAnalyzer.parseLabel();
-      if (label) {
-        this.labelToAddrMap[label] = currentAddress;
+    this.source.forEach((line, sourceIndex) => {
+      this.currentSourceIndex = sourceIndex;
+      const literalCount = this.literalEntries.length;
+      this.sourceLocationList[sourceIndex] = { address: currentAddress, size: 0 };
+      try {
+        const nextAddress = this.parseLine(line, currentAddress);
+        const literalSize = this.literalEntries.slice(literalCount).reduce((total, entry) => total + entry.values.length, 0);
+        this.sourceLocationList[sourceIndex].size = nextAddress - currentAddress - literalSize;
+        currentAddress = nextAddress;
+      } catch (e) {
+        if (!(e instanceof AssembleError)) {
+          throw e;
+        }
+        this.report('error', e.code, e.message, sourceIndex, e.subject);
       }
-      let size = 0;
-      if (this.lineAnalyzer.isMachineInstruction()) {
-        size = this.compileMachineInstruction(currentAddress, args);
-      } else {
-        size = this.compilePseudoOrMacroInstruction(currentAddress, args);
+    });
+    if (this.currentModuleName !== '') {
+      this.report('warning', 'missing-end', `ENDがない ${this.currentModuleName}`, this.source.length - 1);
+    }
+    // ENDのないソースのリテラルも配置しておく
+    currentAddress += this.allocateLiteralValues(currentAddress);
+    this.addressCounter = currentAddress;
+    // DSの領域も含めてプログラムの領域とし、スタックが入り込まないようにする
+    this.memory.allocate(this.beginAddr, currentAddress - this.beginAddr);
+  }
+
+  private parseLine(line: SourceLine, beginAddr: MemoryAddress): MemoryAddress {
+    let currentAddress = beginAddr;
+    const sourceIndex = this.currentSourceIndex;
+    this.lineAnalyzer.load(line);
+    const instruction = this.lineAnalyzer.parseInstruction();
+    if (instruction !== null && !this.lineAnalyzer.checkOperandCount()) {
+      this.report('warning', 'operand-count', `オペランドの数が不正 ${instruction}`, sourceIndex, instruction);
+    }
+    if (instruction === 'START') {
+      this.beginModule(currentAddress);
+      return currentAddress;
+    }
+    const label = this.lineAnalyzer.parseLabel();
+    if (label) {
+      this.defineLabel(label, currentAddress);
+    }
+    if (instruction === null) {
+      // 注釈だけの行
+      return currentAddress;
+    }
+    if (instruction === 'END') {
+      // リテラルはモジュールの末尾に配置する
+      currentAddress += this.allocateLiteralValues(currentAddress);
+      this.currentModuleName = '';
+      return currentAddress;
+    }
+    const macroLines = expandMacroInstruction(instruction, this.lineAnalyzer.parseOperands());
+    if (macroLines) {
+      macroLines.forEach((macroLine) => {
+        this.lineAnalyzer.load(macroLine);
+        this.memoryAddressToSourceindexMap[currentAddress] = sourceIndex;
+        const size = this.compileMachineInstruction(currentAddress);
+        this.codeLocationList.push({ address: currentAddress, size });
+        currentAddress += size;
+      });
+      return currentAddress;
+    }
+    let size = 0;
+    if (this.lineAnalyzer.isMachineInstruction()) {
+      size = this.compileMachineInstruction(currentAddress);
+      this.codeLocationList.push({ address: currentAddress, size });
+    } else {
+      size = this.compilePseudoInstruction(currentAddress, instruction);
+    }
+    if (size === 0) {
+      return currentAddress;
+    }
+    this.memoryAddressToSourceindexMap[currentAddress] = sourceIndex;
+    return currentAddress + size;
+  }
+
+  private defineLabel(label: string, address: MemoryAddress) {
+    if (!isLabelName(label)) {
+      this.report('warning', 'invalid-label', `不正なラベル名 ${label}`, this.currentSourceIndex, label);
+    }
+    if (this.moduleLabelToAddrMap[this.currentModuleName][label] !== undefined) {
+      // 最初の定義を有効とする
+      this.report('warning', 'duplicate-label', `ラベルの重複 ${label}`, this.currentSourceIndex, label);
+      return;
+    }
+    this.moduleLabelToAddrMap[this.currentModuleName][label] = address;
+    this.moduleLabelToSourceIndexMap[this.currentModuleName][label] = this.currentSourceIndex;
+  }
+
+  private beginModule(currentAddress: MemoryAddress) {
+    const name = this.lineAnalyzer.parseLabel();
+    if (!name) {
+      throw new AssembleError('missing-program-name', 'STARTにラベルがない', 'START');
+    }
+    if (this.modules.some(module => module.name === name)) {
+      throw new AssembleError('duplicate-program-name', `プログラム名の重複 ${name}`, name);
+    }
+    if (this.currentModuleName !== '') {
+      this.report('warning', 'missing-end', `ENDがない ${this.currentModuleName}`, this.currentSourceIndex, 'START');
+    }
+    this.modules.push({
+      name,
+      beginAddr: currentAddress,
+      entryLabel: this.lineAnalyzer.parseAddrLabel(),
+      sourceIndex: this.currentSourceIndex
+    });
+    this.currentModuleName = name;
+    this.moduleLabelToAddrMap[name] = {};
+    this.moduleLabelToSourceIndexMap[name] = {};
+  }
+
+  private solveEntries() {
+    // STARTのラベルは他のモジュールから参照できる実行開始番地になる
+    this.modules.forEach(({ name, beginAddr, entryLabel, sourceIndex }) => {
+      if (entryLabel === null) {
+        this.labelToAddrMap[name] = beginAddr;
+        return;
       }
-      if (size === 0) {
+      const value = this.moduleLabelToAddrMap[name][entryLabel];
+      if (value === undefined) {
+        this.report('error', 'undefined-label', `未定義のラベル ${entryLabel}`, sourceIndex, entryLabel);
         return;
       }
-      this.memoryAddressToSourceindexMap[currentAddress] = sourceIndex;
-      currentAddress += size;
+      this.labelToAddrMap[name] = value;
     });
-    this.addressCounter = currentAddress;
   }
 
   private solveLabels() {
-    this.labelAddrsToReplace.forEach(([address, label]) => {
-      const value = this.labelToAddrMap[label];
-      if (!value) {
-        throw new Error(`未定義のラベル ${label}`);
+    this.labelReferences.forEach(({ address, label, moduleName, sourceIndex }) => {
+      const localValue = this.moduleLabelToAddrMap[moduleName][label];
+      const value = localValue !== undefined ? localValue : this.labelToAddrMap[label];
+      if (value === undefined) {
+        this.report('error', 'undefined-label', `未定義のラベル ${label}`, sourceIndex, label);
+        return;
       }
-      this.memory.setValueAt(address, this.labelToAddrMap[label]);
+      this.memory.setValueAt(address, value);
+      this.relocationAddrs.push(address);
     });
   }
 
-  private compilePseudoOrMacroInstruction(currentAddress: number, args: string[]): number {
-    const instruction = args[1];
-    if (instruction === 'START' || instruction === 'END') {
-      // TODO: STARTの引数をとるようにする
-      return 0;
-    }
+  private checkUnusedLabels() {
+    Object.keys(this.moduleLabelToSourceIndexMap).forEach((moduleName) => {
+      const definitions = this.moduleLabelToSourceIndexMap[moduleName];
+      const module = this.modules.find(item => item.name === moduleName);
+      Object.keys(definitions).forEach((label) => {
+        const used = (module && module.entryLabel === label)
+          || this.labelReferences.some(reference => reference.moduleName === moduleName && reference.label === label);
+        if (!used) {
+          this.report('warning', 'unused-label', `未使用のラベル ${label}`, definitions[label], label);
+        }
+      });
+    });
+  }
+
+  private addLabelReference(address: MemoryAddress, label: string) {
+    this.labelReferences.push({ address, label, moduleName: this.currentModuleName, sourceIndex: this.currentSourceIndex });
+  }
+
+  private report(severity: DiagnosticSeverity, code: DiagnosticCode, message: string, sourceIndex: number, subject: string | null = null) {
+    const line = this.source[sourceIndex];
+    const tokens = [line.label, line.instruction, ...line.operands];
+    const token = tokens.find(item => item !== null && item.value === subject) || line.instruction;
+    this.diagnosticList.push({
+      severity,
+      code,
+      fileName: line.fileName,
+      line: line.lineNumber,
+      column: token ? token.column : 1,
+      message
+    });
+  }
+
+  private compilePseudoInstruction(currentAddress: number, instruction: string): number {
     if (instruction === 'DC') {
-      // TODO: ここで内容分の語数を確保する
-      const operands = this.lineAnalyzer.parseOperands();
-      operands.forEach((item, index) => {
+      let size = 0;
+      this.lineAnalyzer.parseOperands().forEach((item) => {
+        const chars = parseStringConst(item);
+        if (chars !== null) {
+          chars.forEach((char, index) => this.memory.setValueAt(currentAddress + size + index, char));
+          size += chars.length;
+          return;
+        }
         const parsedValue = parseConst(item);
-        if (!parsedValue) {
-          throw new Error(`不正な定数 ${item}`);
+        if (parsedValue !== null) {
+          this.memory.setValueAt(currentAddress + size, parsedValue);
+          size += 1;
+          return;
+        }
+        if (!isLabelName(item)) {
+          throw new AssembleError('invalid-constant', `不正な定数 ${item}`, item);
         }
-        this.memory.setValueAt(currentAddress + index, parsedValue);
+        // アドレス定数はラベルの解決時に値を埋める
+        this.memory.setValueAt(currentAddress + size, 0);
+        this.addLabelReference(currentAddress + size, item);
+        size += 1;
       });
-      return operands.length;
+      return size;
     }
     if (instruction === 'DS') {
       const lengthStr = this.lineAnalyzer.parseOperands()[0];
-      const length = Number.parseInt(lengthStr);
-      if (isNaN(length)) {
-        throw new Error(`不正な定数 ${length}`);
-      }
-      for (let i = 0; i < length; i++) {
-        this.memory.setValueAt(currentAddress + i, 0);
+      const length = Number.parseInt(lengthStr, 10);
+      if (!/^[0-9]+$/.test(lengthStr || '') || length > 65535) {
+        throw new AssembleError('invalid-constant', `不正な定数 ${lengthStr}`, lengthStr);
       }
+      // 番地を進めるだけで書き込まない。厳密モードでは読む前に書き込まなければ実行時エラーになる
       return length;
     }
-    if (instruction === 'IN') {
-      this.memory.setValueAt(currentAddress, MACHINE_INSTRUCTION_NUMBER.SVC[2] * 0x100 | 1);
-      this.memory.setValueAt(currentAddress + 1, 0);
-      this.memory.setValueAt(currentAddress + 2, 0);
-      const operands = this.lineAnalyzer.parseOperands();
-      this.labelAddrsToReplace.push([currentAddress + 1, operands[0]]);
-      this.labelAddrsToReplace.push([currentAddress + 2, operands[1]]);
-      return 3;
-    }
-    if (instruction === 'OUT') {
-      this.memory.setValueAt(currentAddress, MACHINE_INSTRUCTION_NUMBER.SVC[2] * 0x100 | 2);
-      this.memory.setValueAt(currentAddress + 1, 0);
-      this.memory.setValueAt(currentAddress + 2, 0);
-      const operands = this.lineAnalyzer.parseOperands();
-      this.labelAddrsToReplace.push([currentAddress + 1, operands[0]]);
-      this.labelAddrsToReplace.push([currentAddress + 2, operands[1]]);
-      return 3;
-    }
-    throw new Error(`未定義の命令 ${instruction}`);
+    throw new AssembleError('unknown-instruction', `未定義の命令 ${instruction}`, instruction);
   }
 
-  private compileMachineInstruction(currentAddress: number, args: string[]) {
+  private compileMachineInstruction(currentAddress: number) {
     this.memory.setValueAt(currentAddress, this.lineAnalyzer.buildFirstWord());
     if (!this.lineAnalyzer.hasAddrValue()) {
       return 1;
@@ -123,25 +373,36 @@ export class Compiler {
     }
     const literalValue = this.lineAnalyzer.parseLiteralValue();
     if (literalValue !== null) {
-      this.literalValues.push([nextAddress, literalValue]);
+      this.literalValues.push({
+        targetAddress: nextAddress,
+        values: literalValue,
+        text: this.lineAnalyzer.parseAddrLabel() as string,
+        sourceIndex: this.currentSourceIndex
+      });
       this.memory.setValueAt(nextAddress, 0);
       return 2;
     }
     const addrLabel = this.lineAnalyzer.parseAddrLabel();
-    if (addrLabel === null) {
-      throw new Error(`2語目の形式が不正 ${args}`);
+    if (addrLabel === null || !isLabelName(addrLabel)) {
+      throw new AssembleError('invalid-operand', `2語目の形式が不正 ${addrLabel}`, addrLabel);
     }
     this.memory.setValueAt(nextAddress, 0);
-    this.labelAddrsToReplace.push([nextAddress, addrLabel]);
+    this.addLabelReference(nextAddress, addrLabel);
     return 2;
   }
 
-  private allocateLiteralValues() {
-    let currenAddress = this.addressCounter;
-    this.literalValues.forEach(([targetAddress, value]) => {
-      this.memory.setValueAt(currenAddress, value);
+  private allocateLiteralValues(beginAddr: MemoryAddress): number {
+    let currenAddress = beginAddr;
+    this.literalValues.forEach(({ targetAddress, values, text, sourceIndex }) => {
       this.memory.setValueAt(targetAddress, currenAddress);
-      currenAddress += 1;
+      this.relocationAddrs.push(targetAddress);
+      this.literalEntries.push({ address: currenAddress, values, text, sourceIndex, poolSourceIndex: this.currentSourceIndex });
+      values.forEach((value) => {
+        this.memory.setValueAt(currenAddress, value);
+        currenAddress += 1;
+      });
     });
+    this.literalValues = [];
+    return currenAddress - beginAddr;
   }
 }
@@ -0,0 +1,278 @@
+import { MemoryAddress, ParsedSource } from "./utils";
+import { Memory } from "./memory";
+import { Profiler, CONDITIONAL_JUMPS } from "./profiler";
+import { disassembleAt } from "./disassembler";
+import { escapeHtml } from "./listing";
+
+// LCOVの分岐の番号
+export const BRANCH_TAKEN = 0;
+export const BRANCH_NOT_TAKEN = 1;
+
+// ファイル名のないソースのSF
+const UNNAMED_SOURCE = '<source>';
+
+export interface LineCoverage {
+  line: number;
+  hits: number;
+}
+
+/**
+ * 条件分岐命令の一方の方向
+ *
+ * - block: 行の中の条件分岐命令の番号(マクロ命令などで1行に複数ある場合)
+ * - branch: BRANCH_TAKEN か BRANCH_NOT_TAKEN
+ * - hits: その方向に進んだ回数。命令を一度も実行していなければnull
+ */
+export interface BranchCoverage {
+  line: number;
+  block: number;
+  branch: number;
+  hits: number | null;
+}
+
+export interface FileCoverage {
+  fileName: string;
+  lines: LineCoverage[];
+  branches: BranchCoverage[];
+}
+
+export interface Coverage {
+  files: FileCoverage[];
+}
+
+export interface CoverageSummary {
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+// 機械語命令を置いた区間を1命令ずつたどる
+function instructionsIn(memory: Memory, codeRanges: { address: MemoryAddress, size: number }[]): { address: MemoryAddress, mnemonic: string }[] {
+  const result: { address: MemoryAddress, mnemonic: string }[] = [];
+  codeRanges.forEach(({ address, size }) => {
+    let current = address;
+    while (current < address + size) {
+      const line = disassembleAt(memory, current);
+      result.push({ address: current, mnemonic: line.mnemonic });
+      current += line.words.length;
+    }
+  });
+  return result;
+}
+
+function fileCoverageOf(files: Map<string, FileCoverage>, fileName: string): FileCoverage {
+  const file = files.get(fileName) || { fileName, lines: [], branches: [] };
+  files.set(fileName, file);
+  return file;
+}
+
+function sortFile(file: FileCoverage): FileCoverage {
+  return {
+    fileName: file.fileName,
+    lines: [...file.lines].sort((a, b) => a.line - b.line),
+    branches: [...file.branches].sort((a, b) => a.line - b.line || a.block - b.block || a.branch - b.branch)
+  };
+}
+
+/**
+ * Machine.setProfilerで計測した結果を、Compiler.addrToSourceIndexMap でソースの行ごとのカバレッジにする。
+ * memoryは命令を調べるために使うので、アセンブル直後か、命令を書き換えないプログラムを実行した後のものを渡す
+ */
+export function createCoverage(
+  profiler: Profiler,
+  memory: Memory,
+  source: ParsedSource,
+  addrToSourceIndexMap: { [key: number]: number },
+  codeRanges: { address: MemoryAddress, size: number }[]
+): Coverage {
+  const hits = profiler.addressHits();
+  const branchHits = new Map(profiler.branchProfiles().map(branch => [branch.address, branch] as [MemoryAddress, typeof branch]));
+  // 行ごとの実行回数は、その行の命令のうち最も多く実行したものの回数とする
+  const lineHits = new Map<number, number>();
+  const lineBranches = new Map<number, MemoryAddress[]>();
+  instructionsIn(memory, codeRanges).forEach(({ address, mnemonic }) => {
+    const sourceIndex = addrToSourceIndexMap[address];
+    if (sourceIndex === undefined) {
+      return;
+    }
+    lineHits.set(sourceIndex, Math.max(lineHits.get(sourceIndex) || 0, hits.get(address) || 0));
+    if (CONDITIONAL_JUMPS.includes(mnemonic)) {
+      lineBranches.set(sourceIndex, [...(lineBranches.get(sourceIndex) || []), address]);
+    }
+  });
+  const files = new Map<string, FileCoverage>();
+  [...lineHits.keys()].sort((a, b) => a - b).forEach((sourceIndex) => {
+    const { fileName, lineNumber } = source[sourceIndex];
+    const file = fileCoverageOf(files, fileName || UNNAMED_SOURCE);
+    file.lines.push({ line: lineNumber, hits: lineHits.get(sourceIndex) as number });
+    (lineBranches.get(sourceIndex) || []).forEach((address, block) => {
+      const branch = branchHits.get(address);
+      const executed = (hits.get(address) || 0) > 0;
+      file.branches.push(
+        { line: lineNumber, block, branch: BRANCH_TAKEN, hits: executed ? (branch ? branch.taken : 0) : null },
+        { line: lineNumber, block, branch: BRANCH_NOT_TAKEN, hits: executed ? (branch ? branch.notTaken : 0) : null }
+      );
+    });
+  });
+  return { files: [...files.values()] };
+}
+
+// 複数回の実行のカバレッジを、ファイル・行・分岐ごとに回数を足し合わせてまとめる
+export function mergeCoverage(coverages: Coverage[]): Coverage {
+  const files = new Map<string, { lines: Map<number, number>, branches: Map<string, BranchCoverage> }>();
+  coverages.forEach((coverage) => {
+    coverage.files.forEach((file) => {
+      const merged = files.get(file.fileName) || { lines: new Map<number, number>(), branches: new Map<string, BranchCoverage>() };
+      files.set(file.fileName, merged);
+      file.lines.forEach(({ line, hits }) => merged.lines.set(line, (merged.lines.get(line) || 0) + hits));
+      file.branches.forEach((branch) => {
+        const key = `${branch.line},${branch.block},${branch.branch}`;
+        const previous = merged.branches.get(key);
+        // 一度も実行されていない(null)ものは、どこかで実行されていればその回数にする
+        const hits = previous && previous.hits !== null
+          ? previous.hits + (branch.hits || 0)
+          : branch.hits;
+        merged.branches.set(key, { ...branch, hits });
+      });
+    });
+  });
+  return {
+    files: [...files.entries()].map(([fileName, { lines, branches }]) => sortFile({
+      fileName,
+      lines: [...lines.entries()].map(([line, hits]) => ({ line, hits })),
+      branches: [...branches.values()]
+    }))
+  };
+}
+
+export function summarizeCoverage(file: FileCoverage): CoverageSummary {
+  return {
+    linesFound: file.lines.length,
+    linesHit: file.lines.filter(line => line.hits > 0).length,
+    branchesFound: file.branches.length,
+    branchesHit: file.branches.filter(branch => branch.hits !== null && branch.hits > 0).length
+  };
+}
+
+export function renderLcov(coverage: Coverage, testName = ''): string {
+  const result: string[] = [];
+  coverage.files.forEach((file) => {
+    const summary = summarizeCoverage(file);
+    result.push(`TN:${testName}`);
+    result.push(`SF:${file.fileName}`);
+    file.branches.forEach(({ line, block, branch, hits }) => {
+      result.push(`BRDA:${line},${block},${branch},${hits === null ? '-' : hits}`);
+    });
+    result.push(`BRF:${summary.branchesFound}`);
+    result.push(`BRH:${summary.branchesHit}`);
+    file.lines.forEach(({ line, hits }) => result.push(`DA:${line},${hits}`));
+    result.push(`LF:${summary.linesFound}`);
+    result.push(`LH:${summary.linesHit}`);
+    result.push('end_of_record');
+  });
+  return result.map(line => `${line}\n`).join('');
+}
+
+// 行(DA)と分岐(BRDA)だけを読み、集計の行や関数の記録は読み飛ばす
+export function parseLcov(text: string): Coverage {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  text.replace(/\r\n?/g, "\n").split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const key = separator >= 0 ? line.substring(0, separator) : line;
+    const values = separator >= 0 ? line.substring(separator + 1).split(',') : [];
+    if (key === 'SF') {
+      current = { fileName: line.substring(separator + 1), lines: [], branches: [] };
+      files.push(current);
+      return;
+    }
+    if (key === 'end_of_record') {
+      current = null;
+      return;
+    }
+    if (!current || (key !== 'DA' && key !== 'BRDA')) {
+      return;
+    }
+    const numbers = values.map(value => (value === '-' ? null : Number(value)));
+    if (numbers.some(value => value !== null && !Number.isInteger(value))) {
+      throw new Error(`${index + 1}: 不正なLCOVの行 ${line}`);
+    }
+    if (key === 'DA' && numbers.length >= 2 && numbers[0] !== null && numbers[1] !== null) {
+      current.lines.push({ line: numbers[0], hits: numbers[1] });
+    } else if (key === 'BRDA' && numbers.length === 4 && numbers[0] !== null && numbers[1] !== null && numbers[2] !== null) {
+      current.branches.push({ line: numbers[0], block: numbers[1], branch: numbers[2], hits: numbers[3] });
+    } else {
+      throw new Error(`${index + 1}: 不正なLCOVの行 ${line}`);
+    }
+  });
+  return { files };
+}
+
+function formatRatio(hit: number, found: number): string {
+  return found > 0 ? `${(hit / found * 100).toFixed(1)}% (${hit}/${found})` : '-';
+}
+
+function formatBranchMarks(branches: BranchCoverage[]): string {
+  // 分岐した方向を「分」、しなかった方向を「続」とし、通らなかった方向に×を付ける
+  return branches
+    .map(({ branch, hits }) => `${branch === BRANCH_TAKEN ? '分' : '続'}${hits === null ? '-' : hits > 0 ? hits : '×'}`)
+    .join(' ');
+}
+
+/**
+ * ファイルごとの行・分岐の網羅率と、各行の実行回数を並べたソースを1つのHTMLにする。
+ * sourcesにはファイル名ごとのソースの本文を渡す。本文がないファイルは網羅率だけを表示する
+ */
+export function renderCoverageHtml(coverage: Coverage, sources: { [fileName: string]: string }, title = 'Coverage report'): string {
+  const summaryRows = coverage.files.map((file) => {
+    const summary = summarizeCoverage(file);
+    return `<tr><td>${escapeHtml(file.fileName)}</td><td>${formatRatio(summary.linesHit, summary.linesFound)}</td>`
+      + `<td>${formatRatio(summary.branchesHit, summary.branchesFound)}</td></tr>`;
+  });
+  const fileSections = coverage.files
+    .filter(file => sources[file.fileName] !== undefined)
+    .map((file) => {
+      const lines = new Map(file.lines.map(line => [line.line, line] as [number, LineCoverage]));
+      const rows = sources[file.fileName].replace(/\r\n?/g, "\n").replace(/\n$/, '').split("\n").map((text, index) => {
+        const lineNumber = index + 1;
+        const line = lines.get(lineNumber);
+        const branches = file.branches.filter(branch => branch.line === lineNumber);
+        const missedBranch = branches.some(branch => !branch.hits);
+        let className = '';
+        if (line) {
+          className = line.hits === 0 ? 'missed' : missedBranch ? 'partial' : 'hit';
+        }
+        return `<tr${className ? ` class="${className}"` : ''}><td>${lineNumber}</td><td>${line ? line.hits : ''}</td>`
+          + `<td>${escapeHtml(formatBranchMarks(branches))}</td><td>${escapeHtml(text)}</td></tr>`;
+      });
+      return [
+        `<h2>${escapeHtml(file.fileName)}</h2>`,
+        '<table>',
+        '<tr><th>LINE</th><th>HITS</th><th>BRANCHES</th><th>SOURCE</th></tr>',
+        ...rows,
+        '</table>'
+      ].join("\n");
+    });
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>table{border-collapse:collapse;font-family:monospace}td,th{padding:0 8px;text-align:left;vertical-align:top;white-space:pre}'
+    + 'tr.hit{background:#dfd}tr.partial{background:#ffd}tr.missed{background:#fdd}</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<table>',
+    '<tr><th>FILE</th><th>LINES</th><th>BRANCHES</th></tr>',
+    ...summaryRows,
+    '</table>',
+    ...fileSections,
+    '</body>',
+    '</html>',
+    ''
+  ].join("\n");
+}
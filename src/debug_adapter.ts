@@ -0,0 +1,478 @@
+import fs from "fs";
+import path from "path";
+import {
+  MemoryAddress, ParsedSource, GENERAL_REGISTER_NAMES, parseSource, toWordHex
+} from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { Compiler, ProgramSymbol } from "./compiler";
+import { IO } from "./io";
+import { Debugger, DebuggerStop } from "./debugger";
+import { formatDiagnostic, hasError } from "./diagnostics";
+import {
+  ProtocolMessage, isProtocolMessage, objectField, arrayField, stringField, numberField, booleanField
+} from "./message_stream";
+
+// スレッドは1つしかない
+const THREAD_ID = 1;
+
+const VARIABLES_REGISTERS = 1;
+const VARIABLES_FLAGS = 2;
+const VARIABLES_LABELS = 3;
+
+// メモリは1語を上位・下位の2バイトとして見せる。memoryReferenceはそのバイト単位の番地
+const BYTES_PER_WORD = 2;
+const MEMORY_BYTES = 0x10000 * BYTES_PER_WORD;
+
+interface DebugAdapterSession {
+  debugger: Debugger;
+  memory: Memory;
+  register: Register;
+  source: ParsedSource;
+  symbols: ProgramSymbol[];
+  entryAddr: MemoryAddress;
+  stopOnEntry: boolean;
+}
+
+export interface Breakpoint {
+  verified: boolean;
+  line: number;
+  message?: string;
+}
+
+export interface StackFrame {
+  id: number;
+  name: string;
+  line: number;
+  column: number;
+  source?: { name: string, path: string };
+  instructionPointerReference: string;
+}
+
+export interface Scope {
+  name: string;
+  variablesReference: number;
+  expensive: boolean;
+}
+
+export interface Variable {
+  name: string;
+  value: string;
+  variablesReference: number;
+  memoryReference?: string;
+}
+
+export interface StackTraceBody {
+  stackFrames: StackFrame[];
+  totalFrames: number;
+}
+
+export interface ReadMemoryBody {
+  address: string;
+  data: string;
+  unreadableBytes: number;
+}
+
+export interface EvaluateBody {
+  result: string;
+  variablesReference: number;
+  memoryReference?: string;
+}
+
+export interface StoppedEventBody {
+  reason: string;
+  threadId: number;
+  allThreadsStopped: boolean;
+  description?: string;
+  text?: string;
+}
+
+export interface OutputEventBody {
+  category: 'console' | 'stdout' | 'stderr';
+  output: string;
+}
+
+export type ResponseBody = { [key: string]: boolean } | { breakpoints: Breakpoint[] } | { threads: { id: number, name: string }[] }
+  | StackTraceBody | { scopes: Scope[] } | { variables: Variable[] } | ReadMemoryBody | EvaluateBody;
+
+export type EventBody = StoppedEventBody | OutputEventBody | { exitCode: number };
+
+// 応答の本体と、応答を送った後に続ける処理
+interface HandlerResult {
+  body?: ResponseBody;
+  after?: () => Promise<void>;
+}
+
+function memoryReferenceOf(address: MemoryAddress): string {
+  return `0x${(address * BYTES_PER_WORD).toString(16).toUpperCase()}`;
+}
+
+function formatWord(value: number): string {
+  return `#${toWordHex(value)} (${value >= 0x8000 ? value - 0x10000 : value})`;
+}
+
+/**
+ * Debug Adapter Protocol でDebuggerを操作する。sendに応答とイベントを渡す
+ *
+ * launchの引数
+ * - program: アセンブルするソース。複数指定すると結合する
+ * - stopOnEntry: 最初の命令で止める
+ *
+ * IN命令はデバッグコンソールで入力した行を読み、OUT命令の出力はデバッグコンソールに書く
+ */
+export class DebugAdapter {
+  private seq = 1;
+  private session: DebugAdapterSession | null = null;
+  private running = false;
+  private linesStartAt1 = true;
+  // IN命令が入力を待っている間は、デバッグコンソールの入力をここに渡す
+  private pendingInput: ((value: string | null) => void) | null = null;
+  // ソースのパスごとに設定したブレークポイントの番地
+  private breakpointsBySource = new Map<string, MemoryAddress[]>();
+
+  constructor(
+    private send: (message: ProtocolMessage) => void,
+    private readFile: (fileName: string) => string = fileName => fs.readFileSync(fileName, 'utf-8').toString()
+  ) {
+  }
+
+  // 要求に応答する。実行を伴う要求は、止まってイベントを送り終えるまで待つ
+  async handle(request: ProtocolMessage): Promise<void> {
+    let result: HandlerResult;
+    try {
+      result = await this.dispatch(stringField(request, 'command') || '', objectField(request, 'arguments'));
+    } catch (e) {
+      this.sendMessage({
+        type: 'response',
+        request_seq: request.seq,
+        success: false,
+        command: request.command,
+        message: e.message,
+        body: { error: { id: 1, format: e.message } }
+      });
+      return;
+    }
+    this.sendMessage({
+      type: 'response', request_seq: request.seq, success: true, command: request.command, body: result.body || {}
+    });
+    if (result.after) {
+      await result.after();
+    }
+  }
+
+  private async dispatch(command: string, args: ProtocolMessage): Promise<HandlerResult> {
+    switch (command) {
+      case 'initialize':
+        this.linesStartAt1 = booleanField(args, 'linesStartAt1') !== false;
+        return {
+          body: {
+            supportsConfigurationDoneRequest: true,
+            supportsStepBack: true,
+            supportsReadMemoryRequest: true,
+          }
+        };
+      case 'launch':
+        this.launch(args);
+        // 設定の要求を受け付けられるようになったことを知らせる
+        return { after: async () => this.sendEvent('initialized') };
+      case 'setBreakpoints':
+        return { body: { breakpoints: this.setBreakpoints(args) } };
+      case 'configurationDone': {
+        const session = this.currentSession();
+        if (session.stopOnEntry) {
+          return { after: async () => this.sendStopped('entry') };
+        }
+        return this.run(() => session.debugger.continue());
+      }
+      case 'threads':
+        return { body: { threads: [{ id: THREAD_ID, name: 'main' }] } };
+      case 'stackTrace':
+        return { body: this.stackTrace() };
+      case 'scopes':
+        return {
+          body: {
+            scopes: [
+              { name: 'Registers', variablesReference: VARIABLES_REGISTERS, expensive: false },
+              { name: 'Flags', variablesReference: VARIABLES_FLAGS, expensive: false },
+              { name: 'Labels', variablesReference: VARIABLES_LABELS, expensive: false },
+            ]
+          }
+        };
+      case 'variables':
+        return { body: { variables: this.variables(numberField(args, 'variablesReference') || 0) } };
+      case 'readMemory':
+        return { body: this.readMemory(args) };
+      case 'evaluate':
+        return { body: this.evaluate(args) };
+      case 'continue':
+        return this.run(() => this.currentSession().debugger.continue(), { allThreadsContinued: true });
+      case 'next':
+        return this.run(() => this.currentSession().debugger.stepOver());
+      case 'stepIn':
+        return this.run(() => this.currentSession().debugger.step());
+      case 'stepOut':
+        return this.run(() => this.currentSession().debugger.finish());
+      case 'stepBack':
+        return this.run(() => this.currentSession().debugger.stepBack());
+      case 'reverseContinue':
+        return this.run(() => this.currentSession().debugger.reverseContinue());
+      case 'pause':
+        if (this.running) {
+          this.currentSession().debugger.pause();
+        }
+        return {};
+      case 'disconnect':
+        if (this.session && this.running) {
+          // 実行中のcontinueなどを止める。止まっても今のセッションではないのでイベントは送らない
+          this.session.debugger.pause();
+        }
+        if (this.pendingInput) {
+          // 入力を待っている実行はEOFで終わらせる
+          this.pendingInput(null);
+          this.pendingInput = null;
+        }
+        this.session = null;
+        return {};
+      default:
+        throw new Error(`未対応の要求 ${command}`);
+    }
+  }
+
+  private launch(args: ProtocolMessage) {
+    const programs = Array.isArray(args.program) ? args.program : [args.program];
+    if (programs.length === 0 || !programs.every((fileName): fileName is string => typeof fileName === 'string')) {
+      throw new Error('programにソースのパスを指定してください');
+    }
+    const fileNames = programs.map(fileName => path.resolve(fileName));
+    const source = fileNames
+      .map(fileName => parseSource(this.readFile(fileName), fileName))
+      .reduce((result, lines) => result.concat(lines), []);
+    const memory = new Memory();
+    const register = new Register();
+    const compiler = new Compiler(memory, 0, source, {});
+    const entryAddr = compiler.compile();
+    const diagnostics = compiler.diagnostics();
+    diagnostics.forEach(diagnostic => this.sendOutput('stderr', `${formatDiagnostic(diagnostic)}\n`));
+    if (hasError(diagnostics)) {
+      throw new Error('アセンブルエラー');
+    }
+    const io = new IO(() => new Promise((resolve) => {
+      this.sendOutput('console', '入力> ');
+      this.pendingInput = resolve;
+    }), async (value: string) => {
+      this.sendOutput('stdout', `${value}\n`);
+    });
+    const symbols = compiler.symbols();
+    this.session = {
+      debugger: new Debugger(memory, register, io, entryAddr, symbols, source, compiler.addrToSourceIndexMap()),
+      memory,
+      register,
+      source,
+      symbols,
+      entryAddr,
+      stopOnEntry: booleanField(args, 'stopOnEntry') === true
+    };
+  }
+
+  private setBreakpoints(args: ProtocolMessage): Breakpoint[] {
+    const session = this.currentSession();
+    const sourcePath = path.resolve(stringField(objectField(args, 'source'), 'path') || '');
+    (this.breakpointsBySource.get(sourcePath) || []).forEach(address => session.debugger.removeBreakpointAt(address));
+    const addresses: MemoryAddress[] = [];
+    // 古いクライアントはbreakpointsの代わりに行番号の配列linesを送る
+    const requested = args.breakpoints !== undefined
+      ? arrayField(args, 'breakpoints').filter(isProtocolMessage).map(item => numberField(item, 'line'))
+      : arrayField(args, 'lines');
+    const lines = requested.filter((line): line is number => typeof line === 'number');
+    const result = lines.map((line) => {
+      try {
+        const address = session.debugger.resolveLocation(`${sourcePath}:${this.toSourceLine(line)}`);
+        session.debugger.addBreakpointAt(address);
+        addresses.push(address);
+        // 命令のない行は、実際に止まる命令の行に動かす
+        const sourceIndex = session.debugger.sourceIndexAt(address);
+        return { verified: true, line: sourceIndex !== null ? this.toClientLine(session.source[sourceIndex].lineNumber) : line };
+      } catch (e) {
+        return { verified: false, line, message: e.message };
+      }
+    });
+    this.breakpointsBySource.set(sourcePath, addresses);
+    return result;
+  }
+
+  // 今の位置と、まだ戻っていないCALLの位置を深い順に並べる
+  private stackTrace(): StackTraceBody {
+    const session = this.currentSession();
+    const calls = session.debugger.callStack();
+    const frames = [{ address: session.register.getProgramCounter(), routine: calls.length > 0 ? calls[calls.length - 1].calleeAddress : session.entryAddr }];
+    for (let i = calls.length - 1; i >= 0; i -= 1) {
+      frames.push({ address: calls[i].callAddress, routine: i > 0 ? calls[i - 1].calleeAddress : session.entryAddr });
+    }
+    return {
+      stackFrames: frames.map(({ address, routine }, id) => {
+        const sourceIndex = session.debugger.sourceIndexAt(address);
+        const line = sourceIndex !== null ? session.source[sourceIndex] : null;
+        return {
+          id,
+          name: this.routineName(routine),
+          line: line ? this.toClientLine(line.lineNumber) : 0,
+          column: line ? this.toClientLine(1) : 0,
+          source: line && line.fileName ? { name: path.basename(line.fileName), path: line.fileName } : undefined,
+          instructionPointerReference: memoryReferenceOf(address)
+        };
+      }),
+      totalFrames: frames.length
+    };
+  }
+
+  private routineName(address: MemoryAddress): string {
+    const { symbols } = this.currentSession();
+    const symbol = symbols.find(item => item.address === address && item.moduleName === '')
+      || symbols.find(item => item.address === address);
+    return symbol ? symbol.name : `#${toWordHex(address)}`;
+  }
+
+  private variables(reference: number): Variable[] {
+    const { register, memory, symbols } = this.currentSession();
+    if (reference === VARIABLES_REGISTERS) {
+      const registers: [string, number][] = [['PC', register.getProgramCounter()], ['SP', register.getStackPointer()]];
+      GENERAL_REGISTER_NAMES.forEach((name, index) => registers.push([name, register.getGRAt(index)]));
+      return registers.map(([name, value]) => ({
+        name, value: formatWord(value), variablesReference: 0, memoryReference: memoryReferenceOf(value)
+      }));
+    }
+    if (reference === VARIABLES_FLAGS) {
+      const flags: [string, number][] = [['OF', register.getOverflowFlag()], ['SF', register.getSignFlag()], ['ZF', register.getZeroFlag()]];
+      return flags.map(([name, value]) => ({ name, value: String(value), variablesReference: 0 }));
+    }
+    if (reference === VARIABLES_LABELS) {
+      return [...symbols]
+        .sort((a, b) => a.address - b.address)
+        .map(symbol => ({
+          name: symbol.moduleName !== '' ? `${symbol.moduleName}.${symbol.name}` : symbol.name,
+          value: formatWord(memory.peekValueAt(symbol.address) || 0),
+          variablesReference: 0,
+          memoryReference: memoryReferenceOf(symbol.address)
+        }));
+    }
+    throw new Error(`未定義の変数の参照 ${reference}`);
+  }
+
+  // 1語を上位・下位のバイトの順に並べて返す。未初期化の語は0とする
+  private readMemory(args: ProtocolMessage): ReadMemoryBody {
+    const { memory } = this.currentSession();
+    const requestedCount = numberField(args, 'count') || 0;
+    const begin = Number(stringField(args, 'memoryReference')) + (numberField(args, 'offset') || 0);
+    if (!Number.isInteger(begin) || begin < 0) {
+      throw new Error(`不正なメモリの参照 ${args.memoryReference}`);
+    }
+    const count = Math.max(0, Math.min(requestedCount, MEMORY_BYTES - begin));
+    const bytes = Buffer.alloc(count);
+    for (let i = 0; i < count; i += 1) {
+      const word = memory.peekValueAt(Math.floor((begin + i) / BYTES_PER_WORD)) || 0;
+      bytes[i] = (begin + i) % BYTES_PER_WORD === 0 ? word >> 8 : word & 0xFF;
+    }
+    return { address: `0x${begin.toString(16).toUpperCase()}`, data: bytes.toString('base64'), unreadableBytes: requestedCount - count };
+  }
+
+  // IN命令が入力を待っていれば、デバッグコンソールの入力をその1行として渡す。
+  // そうでなければレジスタ・フラグ、またはラベル・番地の語の値を返す
+  private evaluate(args: ProtocolMessage): EvaluateBody {
+    const expression = stringField(args, 'expression') || '';
+    if (this.pendingInput && stringField(args, 'context') === 'repl') {
+      const resolve = this.pendingInput;
+      this.pendingInput = null;
+      resolve(expression);
+      return { result: '', variablesReference: 0 };
+    }
+    const { register, memory, debugger: debug } = this.currentSession();
+    const name = expression.trim().toUpperCase();
+    const flags: { [key: string]: number } = { OF: register.getOverflowFlag(), SF: register.getSignFlag(), ZF: register.getZeroFlag() };
+    if (flags[name] !== undefined) {
+      return { result: String(flags[name]), variablesReference: 0 };
+    }
+    let value: number;
+    if (name === 'PC') {
+      value = register.getProgramCounter();
+    } else if (name === 'SP') {
+      value = register.getStackPointer();
+    } else if (GENERAL_REGISTER_NAMES.includes(name)) {
+      value = register.getGRAt(Number(name.substring(2)));
+    } else {
+      const address = debug.resolveLocation(expression.trim());
+      return { result: formatWord(memory.peekValueAt(address) || 0), variablesReference: 0, memoryReference: memoryReferenceOf(address) };
+    }
+    return { result: formatWord(value), variablesReference: 0, memoryReference: memoryReferenceOf(value) };
+  }
+
+  // 応答を送ってから実行し、止まった理由をイベントで知らせる
+  private run(action: () => Promise<DebuggerStop>, body: ResponseBody = {}): HandlerResult {
+    const session = this.currentSession();
+    if (this.running) {
+      throw new Error('実行中');
+    }
+    if (session.debugger.isHalted()) {
+      throw new Error('プログラムは終了している');
+    }
+    this.running = true;
+    return {
+      body,
+      after: async () => {
+        try {
+          const stop = await action();
+          if (this.session !== session) {
+            return;
+          }
+          if (stop.reason === 'halted') {
+            this.sendEvent('exited', { exitCode: 0 });
+            this.sendEvent('terminated');
+          } else if (stop.reason === 'history-start') {
+            this.sendStopped('step', 'これ以上巻き戻せない');
+          } else {
+            this.sendStopped(stop.reason);
+          }
+        } catch (e) {
+          // 実行時エラーの命令で止め、巻き戻して調べられるようにする
+          this.sendOutput('stderr', `${e.message}\n`);
+          this.sendStopped('exception', e.message);
+        } finally {
+          this.running = false;
+        }
+      }
+    };
+  }
+
+  private currentSession(): DebugAdapterSession {
+    if (!this.session) {
+      throw new Error('プログラムを起動していない');
+    }
+    return this.session;
+  }
+
+  private toSourceLine(line: number): number {
+    return this.linesStartAt1 ? line : line + 1;
+  }
+
+  private toClientLine(line: number): number {
+    return this.linesStartAt1 ? line : line - 1;
+  }
+
+  private sendStopped(reason: string, description?: string) {
+    this.sendEvent('stopped', {
+      reason, threadId: THREAD_ID, allThreadsStopped: true, description, text: description
+    });
+  }
+
+  private sendOutput(category: OutputEventBody['category'], output: string) {
+    this.sendEvent('output', { category, output });
+  }
+
+  private sendEvent(event: string, body?: EventBody) {
+    this.sendMessage(body ? { type: 'event', event, body } : { type: 'event', event });
+  }
+
+  private sendMessage(message: ProtocolMessage) {
+    this.send({ seq: this.seq, ...message });
+    this.seq += 1;
+  }
+}
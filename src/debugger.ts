@@ -0,0 +1,288 @@
+import { MACHINE_INSTRUCTION_NUMBER, INITIAL_STACK_POINTER, MemoryAddress, ParsedSource, parseConst } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { IO } from "./io";
+import { Machine } from "./machine";
+
+export type DebuggerStopReason = 'step' | 'breakpoint' | 'halted' | 'history-start' | 'pause';
+
+// 実行中もpauseや入出力を受け付けられるように、イベントループへ制御を戻す間隔(命令数)
+const YIELD_INTERVAL = 0x1000;
+
+export interface DebuggerStop {
+  reason: DebuggerStopReason;
+  address: MemoryAddress;
+}
+
+export interface DebuggerSymbol {
+  name: string;
+  moduleName: string;
+  address: MemoryAddress;
+}
+
+// CALLで呼び出したサブルーチンの1段。stackPointerは戻り番地を積んだ番地
+export interface DebuggerFrame {
+  callAddress: MemoryAddress;
+  // 呼び出したサブルーチンの先頭
+  calleeAddress: MemoryAddress;
+  returnAddress: MemoryAddress;
+  stackPointer: MemoryAddress;
+}
+
+export interface DebuggerSourceLine {
+  sourceIndex: number;
+  current: boolean;
+}
+
+/**
+ * Machineを1命令ずつ動かしながら、ブレークポイントで止める
+ *
+ * 位置は次のいずれかで指定する
+ * - ラベル名: MAIN
+ * - 番地: #0012
+ * - ソースの行番号: 12 または prog.cas:12
+ */
+export class Debugger {
+  private breakpoints = new Set<MemoryAddress>();
+  private machine: Machine;
+  private controller: { executeNext(): Promise<boolean> };
+  private halted = false;
+  // 実行したCALLのうち、まだ戻っていない可能性があるもの。深いものほど後ろ
+  private calls: DebuggerFrame[] = [];
+  private pauseRequested = false;
+
+  constructor(
+    private memory: Memory,
+    private register: Register,
+    io: IO,
+    entryAddr: MemoryAddress,
+    private symbols: DebuggerSymbol[] = [],
+    private source: ParsedSource = [],
+    private addrToSourceIndexMap: { [key: number]: number } = {},
+    historyLimit = 100000
+  ) {
+    this.machine = new Machine(memory, register, io);
+    this.controller = this.machine.executeInteractive(entryAddr);
+    this.machine.enableHistory(historyLimit);
+  }
+
+  isHalted(): boolean {
+    return this.halted;
+  }
+
+  resolveLocation(location: string): MemoryAddress {
+    const lineMatch = location.match(/^(?:(.+):)?([0-9]+)$/);
+    if (lineMatch) {
+      return this.addressOfLine(lineMatch[1] || null, Number(lineMatch[2]));
+    }
+    if (location.startsWith('#')) {
+      const value = parseConst(location);
+      if (value !== null) {
+        return value;
+      }
+    }
+    // 同じ名前のラベルが複数あればSTARTのラベルを優先する
+    const symbol = this.symbols.find(item => item.name === location && item.moduleName === '')
+      || this.symbols.find(item => item.name === location);
+    if (!symbol) {
+      throw new Error(`未定義のラベル ${location}`);
+    }
+    return symbol.address;
+  }
+
+  addBreakpoint(location: string): MemoryAddress {
+    const address = this.resolveLocation(location);
+    this.addBreakpointAt(address);
+    return address;
+  }
+
+  removeBreakpoint(location: string): MemoryAddress {
+    const address = this.resolveLocation(location);
+    if (!this.removeBreakpointAt(address)) {
+      throw new Error(`ブレークポイントがない ${location}`);
+    }
+    return address;
+  }
+
+  addBreakpointAt(address: MemoryAddress) {
+    this.breakpoints.add(address);
+  }
+
+  // ブレークポイントがなければfalseを返す
+  removeBreakpointAt(address: MemoryAddress): boolean {
+    return this.breakpoints.delete(address);
+  }
+
+  breakpointList(): MemoryAddress[] {
+    return [...this.breakpoints].sort((a, b) => a - b);
+  }
+
+  async step(): Promise<DebuggerStop> {
+    await this.executeNext();
+    return this.stopWith('step');
+  }
+
+  // CALLならサブルーチンから戻るまで実行する
+  async stepOver(): Promise<DebuggerStop> {
+    if (this.instructionNumberAt(this.register.getProgramCounter()) !== MACHINE_INSTRUCTION_NUMBER.CALL[2]) {
+      return this.step();
+    }
+    const returnAddr = (this.register.getProgramCounter() + 2) & 0xFFFF;
+    const stackPointer = this.register.getStackPointer();
+    return this.runUntil(() => this.register.getProgramCounter() === returnAddr && this.register.getStackPointer() === stackPointer);
+  }
+
+  // 今のサブルーチンからRETで戻るまで実行する
+  async finish(): Promise<DebuggerStop> {
+    const depth = this.stackDepth();
+    let returned = false;
+    return this.runUntil(() => returned, () => {
+      returned = this.instructionNumberAt(this.register.getProgramCounter()) === MACHINE_INSTRUCTION_NUMBER.RET[1];
+    }, () => {
+      returned = returned && this.stackDepth() < depth;
+    });
+  }
+
+  async continue(): Promise<DebuggerStop> {
+    return this.runUntil(() => false);
+  }
+
+  // 実行中のcontinue、stepOver、finishを次の命令の前で止める。止まった理由は pause になる
+  pause() {
+    this.pauseRequested = true;
+  }
+
+  async stepBack(): Promise<DebuggerStop> {
+    return this.reverse(() => this.machine.stepBack(), 'step');
+  }
+
+  // 直前に止まったブレークポイントまで巻き戻す
+  async reverseContinue(): Promise<DebuggerStop> {
+    return this.reverse(() => this.machine.reverseContinue(this.breakpoints), 'breakpoint');
+  }
+
+  // locationに書き込んだ命令を実行する前まで巻き戻す
+  async reverseUntilWritten(location: string): Promise<DebuggerStop> {
+    const address = this.resolveLocation(location);
+    return this.reverse(() => this.machine.reverseUntilWritten(address), 'step');
+  }
+
+  // 呼び出し元から順に、まだ戻っていないCALLを返す。
+  // 記録したCALLのうち、今のSPより深い段と、積んだ戻り番地が書き換えられた段は戻ったものとみなす
+  callStack(): DebuggerFrame[] {
+    const depth = this.stackDepth();
+    return this.calls.filter(frame => this.depthOf(frame.stackPointer) <= depth
+      && this.memory.peekValueAt(frame.stackPointer) === frame.returnAddress);
+  }
+
+  sourceIndexAt(address: MemoryAddress): number | null {
+    const sourceIndex = this.addrToSourceIndexMap[address];
+    return sourceIndex !== undefined ? sourceIndex : null;
+  }
+
+  // addressを含む行の前後のソースを返す。命令の途中の番地は直前の命令の行とみなす
+  sourceAround(address: MemoryAddress, context = 5): DebuggerSourceLine[] {
+    const mapped = Object.keys(this.addrToSourceIndexMap)
+      .map(Number)
+      .filter(item => item <= address);
+    if (mapped.length === 0) {
+      return [];
+    }
+    const currentIndex = this.addrToSourceIndexMap[Math.max(...mapped)];
+    const begin = Math.max(0, currentIndex - context);
+    const end = Math.min(this.source.length - 1, currentIndex + context);
+    const result: DebuggerSourceLine[] = [];
+    for (let sourceIndex = begin; sourceIndex <= end; sourceIndex += 1) {
+      result.push({ sourceIndex, current: sourceIndex === currentIndex });
+    }
+    return result;
+  }
+
+  private addressOfLine(fileName: string | null, lineNumber: number): MemoryAddress {
+    const sourceIndex = this.source.findIndex(line => line.lineNumber === lineNumber && (fileName === null || line.fileName === fileName));
+    if (sourceIndex < 0) {
+      throw new Error(`該当する行がない ${fileName ? `${fileName}:` : ''}${lineNumber}`);
+    }
+    // 命令のない行はその後にある最初の命令の行とみなす
+    const addresses = Object.keys(this.addrToSourceIndexMap)
+      .map(Number)
+      .filter(address => this.addrToSourceIndexMap[address] >= sourceIndex
+        && this.source[this.addrToSourceIndexMap[address]].fileName === this.source[sourceIndex].fileName);
+    if (addresses.length === 0) {
+      throw new Error(`命令のない行 ${lineNumber}`);
+    }
+    return addresses.reduce((result, address) => (
+      this.addrToSourceIndexMap[address] < this.addrToSourceIndexMap[result]
+        || (this.addrToSourceIndexMap[address] === this.addrToSourceIndexMap[result] && address < result) ? address : result
+    ));
+  }
+
+  // スタックは0番地から下に向かって積まれるため、SPの値をそのまま比べられない
+  private stackDepth(): number {
+    return this.depthOf(this.register.getStackPointer());
+  }
+
+  private depthOf(stackPointer: MemoryAddress): number {
+    return (INITIAL_STACK_POINTER - stackPointer) & 0xFFFF;
+  }
+
+  private instructionNumberAt(address: MemoryAddress): number {
+    return ((this.memory.peekValueAt(address) || 0) & 0xFF00) >> 8;
+  }
+
+  private async executeNext() {
+    if (this.halted) {
+      throw new Error('プログラムは終了している');
+    }
+    const callAddress = this.register.getProgramCounter();
+    const isCall = this.instructionNumberAt(callAddress) === MACHINE_INSTRUCTION_NUMBER.CALL[2];
+    if (await this.controller.executeNext() === false) {
+      this.halted = true;
+    }
+    if (isCall) {
+      // 同じ深さより深い段はもう戻っている
+      const stackPointer = this.register.getStackPointer();
+      this.calls = this.calls.filter(frame => this.depthOf(frame.stackPointer) < this.depthOf(stackPointer));
+      this.calls.push({
+        callAddress, calleeAddress: this.register.getProgramCounter(), returnAddress: (callAddress + 2) & 0xFFFF, stackPointer
+      });
+    }
+  }
+
+  // 最初の1命令はブレークポイントに関係なく実行する
+  private async runUntil(stopped: () => boolean, beforeEach: () => void = () => {}, afterEach: () => void = () => {}): Promise<DebuggerStop> {
+    this.pauseRequested = false;
+    for (let count = 1; ; count += 1) {
+      beforeEach();
+      await this.executeNext();
+      afterEach();
+      if (this.halted || stopped()) {
+        return this.stopWith('step');
+      }
+      if (this.breakpoints.has(this.register.getProgramCounter())) {
+        return this.stopWith('breakpoint');
+      }
+      if (this.pauseRequested) {
+        this.pauseRequested = false;
+        return this.stopWith('pause');
+      }
+      if (count % YIELD_INTERVAL === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+  }
+
+  // 履歴の先頭まで戻っても目的の位置に着かなければ history-start とする
+  private reverse(move: () => boolean, reason: DebuggerStopReason): DebuggerStop {
+    const length = this.machine.historyLength();
+    const found = move();
+    if (this.machine.historyLength() < length) {
+      this.halted = false;
+    }
+    return { reason: found ? reason : 'history-start', address: this.register.getProgramCounter() };
+  }
+
+  private stopWith(reason: DebuggerStopReason): DebuggerStop {
+    return { reason: this.halted ? 'halted' : reason, address: this.register.getProgramCounter() };
+  }
+}
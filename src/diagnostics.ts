@@ -0,0 +1,43 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'unknown-instruction'
+  | 'invalid-operand'
+  | 'invalid-constant'
+  | 'out-of-range'
+  | 'invalid-literal'
+  | 'undefined-label'
+  | 'missing-program-name'
+  | 'duplicate-program-name'
+  | 'duplicate-label'
+  | 'unused-label'
+  | 'invalid-label'
+  | 'operand-count'
+  | 'missing-end';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  fileName: string | null;
+  // 行・桁はどちらも1から数える
+  line: number;
+  column: number;
+  message: string;
+}
+
+// アセンブル中の1行の誤り。subjectには誤りのある字句を入れ、桁位置の特定に使う
+export class AssembleError extends Error {
+  constructor(readonly code: DiagnosticCode, message: string, readonly subject: string | null = null) {
+    super(message);
+    this.name = 'AssembleError';
+  }
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = `${diagnostic.fileName || '<source>'}:${diagnostic.line}:${diagnostic.column}`;
+  return `${location}: ${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}`;
+}
+
+export function hasError(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
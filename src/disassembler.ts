@@ -0,0 +1,124 @@
+import { MACHINE_INSTRUCTION_NUMBER, OPERAND_COUNT_RANGE, MemoryAddress, WordValue, toWordHex } from "./utils";
+import { Memory } from "./memory";
+
+// DSの行は書き込まれていない語をまとめたもので、wordsは空になる
+export interface DisassembledLine {
+  address: MemoryAddress;
+  words: WordValue[];
+  label: string | null;
+  mnemonic: string;
+  operands: string[];
+}
+
+export type SymbolNames = { [key: number]: string };
+
+// 番地の値を記号で表示しない命令
+const NUMERIC_ADDRESS_INSTRUCTIONS = Object.freeze(['SLA', 'SRA', 'SLL', 'SRL', 'SVC']);
+
+const INSTRUCTION_BY_NUMBER: { [key: number]: [string, number] } = (() => {
+  const result: { [key: number]: [string, number] } = {};
+  Object.keys(MACHINE_INSTRUCTION_NUMBER).forEach((name) => {
+    const forms = MACHINE_INSTRUCTION_NUMBER[name];
+    Object.keys(forms).forEach((length) => {
+      result[forms[Number(length)]] = [name, Number(length)];
+    });
+  });
+  return result;
+})();
+
+// 同じ番地に複数のラベルがある場合は、STARTのラベル(moduleNameが空)よりモジュール内のラベルを優先し、
+// その中では先に現れたものを使う
+export function symbolNamesOf(symbols: { name: string, moduleName?: string, address: MemoryAddress }[]): SymbolNames {
+  const result: SymbolNames = {};
+  const localSymbols = symbols.filter(({ moduleName }) => moduleName);
+  const globalSymbols = symbols.filter(({ moduleName }) => !moduleName);
+  [...localSymbols, ...globalSymbols].forEach(({ name, address }) => {
+    if (result[address] === undefined) {
+      result[address] = name;
+    }
+  });
+  return result;
+}
+
+function gRName(index: number): string {
+  return `GR${index}`;
+}
+
+function wordAt(memory: Memory, address: MemoryAddress): WordValue {
+  return memory.peekValueAt(address) || 0;
+}
+
+function dataLine(address: MemoryAddress, word: WordValue, symbols: SymbolNames): DisassembledLine {
+  return { address, words: [word], label: symbols[address] || null, mnemonic: 'DC', operands: [`#${toWordHex(word)}`] };
+}
+
+// 1命令(または1語の定数)を逆アセンブルする。
+// relocationsを渡した場合は、番地を値として持つ語だけを記号で表示する
+export function disassembleAt(memory: Memory, address: MemoryAddress, symbols: SymbolNames = {}, relocations: Set<MemoryAddress> | null = null): DisassembledLine {
+  const word = wordAt(memory, address);
+  const instruction = INSTRUCTION_BY_NUMBER[(word & 0xFF00) >> 8];
+  if (!instruction) {
+    return dataLine(address, word, symbols);
+  }
+  const [mnemonic, length] = instruction;
+  const r1 = (word & 0xF0) >> 4;
+  const r2OrX = word & 0xF;
+  const [minOperandCount] = OPERAND_COUNT_RANGE[mnemonic];
+  const label = symbols[address] || null;
+  if (length === 1) {
+    if (minOperandCount === 0) {
+      // 使わないビットが立っていれば命令ではないとみなす
+      return (word & 0xFF) === 0 ? { address, words: [word], label, mnemonic, operands: [] } : dataLine(address, word, symbols);
+    }
+    if (minOperandCount === 1) {
+      return r2OrX === 0 ? { address, words: [word], label, mnemonic, operands: [gRName(r1)] } : dataLine(address, word, symbols);
+    }
+    return { address, words: [word], label, mnemonic, operands: [gRName(r1), gRName(r2OrX)] };
+  }
+  const addr = wordAt(memory, address + 1);
+  const operands: string[] = [];
+  if (minOperandCount >= 2) {
+    operands.push(gRName(r1));
+  } else if (r1 !== 0) {
+    return dataLine(address, word, symbols);
+  }
+  const isAddress = relocations ? relocations.has(address + 1) : !NUMERIC_ADDRESS_INSTRUCTIONS.includes(mnemonic);
+  const symbol = isAddress ? symbols[addr] : undefined;
+  operands.push(symbol || (NUMERIC_ADDRESS_INSTRUCTIONS.includes(mnemonic) ? `${addr}` : `#${toWordHex(addr)}`));
+  if (r2OrX !== 0) {
+    operands.push(gRName(r2OrX));
+  }
+  return { address, words: [word, addr], label, mnemonic, operands };
+}
+
+// from から to までの範囲(toを含む)を先頭から順に逆アセンブルする。
+// 書き込まれていない語は命令とみなさず、続いている分をまとめてDSの行にする
+export function disassemble(memory: Memory, from: MemoryAddress, to: MemoryAddress, symbols: SymbolNames = {}, relocations: Set<MemoryAddress> | null = null): DisassembledLine[] {
+  const lines: DisassembledLine[] = [];
+  let address = from;
+  while (address <= to) {
+    if (memory.isInitialized(address)) {
+      const line = disassembleAt(memory, address, symbols, relocations);
+      // 範囲の末尾をまたぐ命令は定数として扱う
+      lines.push(address + line.words.length - 1 > to ? dataLine(address, line.words[0], symbols) : line);
+      address += lines[lines.length - 1].words.length;
+    } else {
+      let size = 1;
+      while (address + size <= to && !memory.isInitialized(address + size)) {
+        size += 1;
+      }
+      lines.push({ address, words: [], label: symbols[address] || null, mnemonic: 'DS', operands: [`${size}`] });
+      address += size;
+    }
+  }
+  return lines;
+}
+
+export function formatInstruction(line: DisassembledLine): string {
+  return `${line.mnemonic} ${line.operands.join(',')}`.trim();
+}
+
+export function formatDisassembledLine(line: DisassembledLine): string {
+  const words = line.words.map(toWordHex).join(' ').padEnd(9);
+  return `${toWordHex(line.address)}: ${words}  ${(line.label || '').padEnd(8)} ${line.mnemonic.padEnd(5)} ${line.operands.join(',')}`.trimRight();
+}
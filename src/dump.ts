@@ -0,0 +1,49 @@
+import { MemoryAddress, WordValue, GENERAL_REGISTER_NAMES, toWordHex } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+
+export type DumpFormat = 'text' | 'json';
+
+// 出力しない部分は省く
+export interface StateDump {
+  // PC, SP, OF, SF, ZF, GR0〜GR7 の値
+  registers?: { [key: string]: WordValue };
+  // 書き込まれている語を番地の順に並べる
+  memory?: { address: MemoryAddress, value: WordValue }[];
+}
+
+export function createStateDump(memory: Memory, register: Register, parts: { registers: boolean, memory: boolean }): StateDump {
+  const dump: StateDump = {};
+  if (parts.registers) {
+    const registers: { [key: string]: WordValue } = {
+      PC: register.getProgramCounter(),
+      SP: register.getStackPointer(),
+      OF: register.getOverflowFlag(),
+      SF: register.getSignFlag(),
+      ZF: register.getZeroFlag(),
+    };
+    GENERAL_REGISTER_NAMES.forEach((name, index) => {
+      registers[name] = register.getGRAt(index);
+    });
+    dump.registers = registers;
+  }
+  if (parts.memory) {
+    dump.memory = memory.dump().map(([address, value]) => ({ address, value }));
+  }
+  return dump;
+}
+
+export function renderStateDump(dump: StateDump, format: DumpFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(dump)}\n`;
+  }
+  const lines: string[] = [];
+  if (dump.registers) {
+    const registers = dump.registers;
+    Object.keys(registers).forEach(name => lines.push(`${name.padStart(3)}: ${toWordHex(registers[name])}`));
+  }
+  if (dump.memory) {
+    dump.memory.forEach(({ address, value }) => lines.push(`${toWordHex(address)}: ${toWordHex(value)}`));
+  }
+  return lines.map(line => `${line}\n`).join('');
+}
@@ -0,0 +1,8 @@
+import { MemoryAddress, toWordHex } from "./utils";
+
+export class RuntimeError extends Error {
+  constructor(message: string, readonly address: MemoryAddress) {
+    super(`${message} at #${toWordHex(address)}`);
+    this.name = 'RuntimeError';
+  }
+}
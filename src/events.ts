@@ -0,0 +1,42 @@
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * イベントの名前と内容の型を対応させた EventMap を受け取る型付きのイベント。
+ * 送る側はhasListenersで購読の有無を確かめてからイベントを作れば、購読がない間はほとんど負担にならない
+ */
+export class EventEmitter<EventMap> {
+  private listeners: { [K in keyof EventMap]?: EventListener<EventMap[K]>[] } = {};
+  // すべての種類の購読の数。購読がない場合はこれだけで判断する
+  private listenerCount = 0;
+
+  // 購読をやめる関数を返す
+  on<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): () => void {
+    this.listeners[type] = [...this.listenersOf(type), listener];
+    this.listenerCount += 1;
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>) {
+    const listeners = this.listenersOf(type).filter(item => item !== listener);
+    this.listenerCount -= this.listenersOf(type).length - listeners.length;
+    // 購読がなくなればhasListenersがすぐにfalseを返せるように消しておく
+    if (listeners.length > 0) {
+      this.listeners[type] = listeners;
+    } else {
+      delete this.listeners[type];
+    }
+  }
+
+  hasListeners<K extends keyof EventMap>(type: K): boolean {
+    return this.listenerCount > 0 && this.listeners[type] !== undefined;
+  }
+
+  emit<K extends keyof EventMap>(type: K, event: EventMap[K]) {
+    // 通知の途中で購読をやめても残りには届ける
+    this.listenersOf(type).forEach(listener => listener(event));
+  }
+
+  private listenersOf<K extends keyof EventMap>(type: K): EventListener<EventMap[K]>[] {
+    return (this.listeners[type] || []) as EventListener<EventMap[K]>[];
+  }
+}
@@ -0,0 +1,79 @@
+import { MemoryAddress, WordValue } from "./utils";
+
+/**
+ * 1命令の実行で変わった状態の、実行前の値
+ *
+ * - registers: [番号, 元の値] を並べたもの。番号は0〜7がGR、8がSP、9がフラグ
+ * - memory: [番地, 元の値] を並べたもの。元の値が未書き込みなら-1
+ * - inputs: その命令が読んだ入力。巻き戻した後に再び実行する際は同じ値を使う
+ */
+export interface HistoryEntry {
+  programCounter: MemoryAddress;
+  registers: number[];
+  memory: number[];
+  inputs: (string | null)[];
+}
+
+export const REGISTER_SLOT_STACK_POINTER = 8;
+export const REGISTER_SLOT_FLAGS = 9;
+
+// 上限を超えた分は古いものから捨てるリングバッファ
+export class ExecutionHistory {
+  private entries: (HistoryEntry | undefined)[] = [];
+  private first = 0;
+  private count = 0;
+
+  constructor(readonly limit: number) {
+    if (!(limit > 0)) {
+      throw new Error(`不正な履歴の上限 ${limit}`);
+    }
+  }
+
+  length(): number {
+    return this.count;
+  }
+
+  push(entry: HistoryEntry) {
+    if (this.count === this.limit) {
+      this.entries[this.first] = entry;
+      this.first = (this.first + 1) % this.limit;
+      return;
+    }
+    this.entries[(this.first + this.count) % this.limit] = entry;
+    this.count += 1;
+  }
+
+  pop(): HistoryEntry | null {
+    if (this.count === 0) {
+      return null;
+    }
+    this.count -= 1;
+    const index = (this.first + this.count) % this.limit;
+    const entry = this.entries[index] as HistoryEntry;
+    this.entries[index] = undefined;
+    return entry;
+  }
+
+  last(): HistoryEntry | null {
+    return this.count === 0 ? null : this.entries[(this.first + this.count - 1) % this.limit] as HistoryEntry;
+  }
+
+  clear() {
+    this.entries = [];
+    this.first = 0;
+    this.count = 0;
+  }
+}
+
+export function hasMemoryWrite(entry: HistoryEntry, address: MemoryAddress): boolean {
+  for (let i = 0; i < entry.memory.length; i += 2) {
+    if (entry.memory[i] === address) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function previousMemoryValue(value: number): WordValue | undefined {
+  return value < 0 ? undefined : value;
+}
@@ -1,67 +1,39 @@
-import fs from 'fs';
-import readline from 'readline';
-
-import { Memory } from './memory';
-import { Register } from './register';
-import { Compiler } from './compiler';
-import { Machine } from './machine';
-import { parseSource, toWordHex, memoryDebugInfo } from './utils';
-import { IO } from './io';
+#!/usr/bin/env node
+import { assembleCommand } from './cli/assemble';
+import { benchmarkCommand } from './cli/benchmark';
+import { coverageCommand } from './cli/coverage';
+import { dapCommand } from './cli/dap';
+import { debugCommand } from './cli/debug';
+import { listingCommand } from './cli/listing';
+import { lspCommand } from './cli/lsp';
+import { runCommand } from './cli/run';
+import { stepCommand } from './cli/step';
+import { testCommand } from './cli/test_command';
+
+const COMMANDS: { [key: string]: (args: string[]) => Promise<number> } = {
+  assemble: assembleCommand,
+  benchmark: benchmarkCommand,
+  coverage: coverageCommand,
+  dap: dapCommand,
+  debug: debugCommand,
+  listing: listingCommand,
+  lsp: lspCommand,
+  run: runCommand,
+  step: stepCommand,
+  test: testCommand,
+};
 
 (async function () {
-  const sourceText = fs.readFileSync(process.argv[2], 'utf-8').toString();
-  const source: (string[])[] = parseSource(sourceText);
-
-  const memory = new Memory();
-  const register = new Register();
-
-  const compiler = new Compiler(memory, 0, source, {});
-  compiler.compile();
-
-  const addrToSourceIndexMap = compiler.addrToSourceIndexMap();
-  console.log('コンパイル完了');
-
-  function debugDump() {
-    console.log(memoryDebugInfo(memory.dump(), addrToSourceIndexMap, source));
-    console.log(register.toString());
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    const commandFunction = COMMANDS[command];
+    // コマンド名を省略した場合は従来どおりステップ実行する
+    const exitCode = commandFunction ? await commandFunction(args) : await stepCommand(process.argv.slice(2));
+    if (exitCode !== 0) {
+      process.exit(exitCode);
+    }
+  } catch (e) {
+    console.error(e.message);
+    process.exit(1);
   }
-  debugDump();
-
-  let inputFunc: ((value: string) => void) | null;
-  const io = new IO(() => {
-    return new Promise((resolve) => {
-      inputFunc = resolve;
-    });
-  }, async (value: string) => {
-    console.log(value);
-  });
-
-  // TODO: START命令から開始位置を持ってくる
-  const controller = new Machine(memory, register, io).executeInteractive(0);
-  const readlineStdin = readline.createInterface(process.stdin, process.stdout);
-
-  readlineStdin.on("line", function (value: string) {
-    (async () => {
-      if (inputFunc) {
-        // 入力処理の捕捉
-        inputFunc(value.trim());
-        inputFunc = null;
-        return;
-      }
-
-      try {
-        console.log(`PC: ${toWordHex(register.getProgramCounter())}`);
-        const result = await controller.executeNext();
-        debugDump();
-        console.log('---');
-        if (result === false) {
-          readlineStdin.close();
-          console.log('処理終了');
-          debugDump();
-        }
-      } catch (e) {
-        console.error(e);
-      }
-    })();
-  });
 })();
@@ -0,0 +1,87 @@
+import { MACHINE_INSTRUCTION_NUMBER, toWordHex } from "./utils";
+
+export type InstructionKind = 'machine' | 'pseudo' | 'macro';
+
+export interface InstructionReference {
+  name: string;
+  kind: InstructionKind;
+  summary: string;
+  // オペランドの書き方。[]は省略できることを表す
+  forms: string[];
+  // 実行後のフラグ。実行しない擬似命令はnull
+  flags: string | null;
+}
+
+const SET_FLAGS = 'OF・SF・ZFを結果に応じて設定';
+const SET_LOGICAL_FLAGS = 'OFは0、SF・ZFを結果に応じて設定';
+const SET_SHIFT_FLAGS = 'OFは最後に送り出したビット、SF・ZFを結果に応じて設定';
+const KEEP_FLAGS = '変化しない';
+
+const REFERENCES: InstructionReference[] = [
+  { name: 'START', kind: 'pseudo', summary: 'プログラムの先頭。ラベルがプログラム名になり、オペランドで実行開始番地を指定する', forms: ['START [実行開始番地]'], flags: null },
+  { name: 'END', kind: 'pseudo', summary: 'プログラムの終わり。リテラルはここに配置する', forms: ['END'], flags: null },
+  { name: 'DS', kind: 'pseudo', summary: '語数分の領域を確保する', forms: ['DS 語数'], flags: null },
+  { name: 'DC', kind: 'pseudo', summary: '定数を配置する', forms: ['DC 定数[,定数]...'], flags: null },
+  { name: 'IN', kind: 'macro', summary: '1行を入力領域に読み込み、文字数を入力文字長領域に書く', forms: ['IN 入力領域,入力文字長領域'], flags: '不定' },
+  { name: 'OUT', kind: 'macro', summary: '出力領域から出力文字長の文字を1行として出力する', forms: ['OUT 出力領域,出力文字長領域'], flags: '不定' },
+  { name: 'RPUSH', kind: 'macro', summary: 'GR1からGR7の順にスタックに積む', forms: ['RPUSH'], flags: KEEP_FLAGS },
+  { name: 'RPOP', kind: 'macro', summary: 'GR7からGR1の順にスタックから取り出す', forms: ['RPOP'], flags: KEEP_FLAGS },
+  { name: 'NOP', kind: 'machine', summary: '何もしない', forms: ['NOP'], flags: KEEP_FLAGS },
+  { name: 'LD', kind: 'machine', summary: 'ロード', forms: ['LD r1,r2', 'LD r,adr[,x]'], flags: SET_LOGICAL_FLAGS },
+  { name: 'ST', kind: 'machine', summary: 'ストア', forms: ['ST r,adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'LAD', kind: 'machine', summary: '実効アドレスをロード', forms: ['LAD r,adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'ADDA', kind: 'machine', summary: '算術加算', forms: ['ADDA r1,r2', 'ADDA r,adr[,x]'], flags: SET_FLAGS },
+  { name: 'SUBA', kind: 'machine', summary: '算術減算', forms: ['SUBA r1,r2', 'SUBA r,adr[,x]'], flags: SET_FLAGS },
+  { name: 'ADDL', kind: 'machine', summary: '論理加算', forms: ['ADDL r1,r2', 'ADDL r,adr[,x]'], flags: SET_FLAGS },
+  { name: 'SUBL', kind: 'machine', summary: '論理減算', forms: ['SUBL r1,r2', 'SUBL r,adr[,x]'], flags: SET_FLAGS },
+  { name: 'AND', kind: 'machine', summary: '論理積', forms: ['AND r1,r2', 'AND r,adr[,x]'], flags: SET_LOGICAL_FLAGS },
+  { name: 'OR', kind: 'machine', summary: '論理和', forms: ['OR r1,r2', 'OR r,adr[,x]'], flags: SET_LOGICAL_FLAGS },
+  { name: 'XOR', kind: 'machine', summary: '排他的論理和', forms: ['XOR r1,r2', 'XOR r,adr[,x]'], flags: SET_LOGICAL_FLAGS },
+  { name: 'CPA', kind: 'machine', summary: '算術比較', forms: ['CPA r1,r2', 'CPA r,adr[,x]'], flags: 'OFは0、比較結果が負ならSF=1、等しければZF=1' },
+  { name: 'CPL', kind: 'machine', summary: '論理比較', forms: ['CPL r1,r2', 'CPL r,adr[,x]'], flags: 'OFは0、比較結果が負ならSF=1、等しければZF=1' },
+  { name: 'SLA', kind: 'machine', summary: '算術左シフト', forms: ['SLA r,adr[,x]'], flags: SET_SHIFT_FLAGS },
+  { name: 'SRA', kind: 'machine', summary: '算術右シフト', forms: ['SRA r,adr[,x]'], flags: SET_SHIFT_FLAGS },
+  { name: 'SLL', kind: 'machine', summary: '論理左シフト', forms: ['SLL r,adr[,x]'], flags: SET_SHIFT_FLAGS },
+  { name: 'SRL', kind: 'machine', summary: '論理右シフト', forms: ['SRL r,adr[,x]'], flags: SET_SHIFT_FLAGS },
+  { name: 'JMI', kind: 'machine', summary: 'SF=1なら分岐', forms: ['JMI adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'JNZ', kind: 'machine', summary: 'ZF=0なら分岐', forms: ['JNZ adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'JZE', kind: 'machine', summary: 'ZF=1なら分岐', forms: ['JZE adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'JUMP', kind: 'machine', summary: '無条件分岐', forms: ['JUMP adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'JPL', kind: 'machine', summary: 'SF=0かつZF=0なら分岐', forms: ['JPL adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'JOV', kind: 'machine', summary: 'OF=1なら分岐', forms: ['JOV adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'PUSH', kind: 'machine', summary: '実効アドレスをスタックに積む', forms: ['PUSH adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'POP', kind: 'machine', summary: 'スタックから取り出す', forms: ['POP r'], flags: KEEP_FLAGS },
+  { name: 'CALL', kind: 'machine', summary: '戻り番地を積んでサブルーチンを呼ぶ', forms: ['CALL adr[,x]'], flags: KEEP_FLAGS },
+  { name: 'RET', kind: 'machine', summary: 'サブルーチンから戻る', forms: ['RET'], flags: KEEP_FLAGS },
+  { name: 'SVC', kind: 'machine', summary: 'スーパーバイザを呼ぶ', forms: ['SVC adr[,x]'], flags: '不定' },
+];
+
+export const INSTRUCTION_REFERENCES: ReadonlyArray<InstructionReference> = Object.freeze(REFERENCES);
+
+export function findInstructionReference(name: string): InstructionReference | null {
+  return INSTRUCTION_REFERENCES.find(item => item.name === name) || null;
+}
+
+// 機械語命令の命令コードを語数ごとに並べる。例: #14 (1語), #10 (2語)
+export function formatEncoding(name: string): string | null {
+  const forms = MACHINE_INSTRUCTION_NUMBER[name];
+  if (!forms) {
+    return null;
+  }
+  return Object.keys(forms)
+    .map(length => `#${toWordHex(forms[Number(length)]).slice(2)} (${length}語)`)
+    .join(', ');
+}
+
+// エディタのホバーなどに出すMarkdownの説明
+export function describeInstruction(reference: InstructionReference): string {
+  const lines = [`**${reference.name}** ${reference.summary}`, '', '```casl', ...reference.forms, '```'];
+  const encoding = formatEncoding(reference.name);
+  if (encoding) {
+    lines.push('', `命令コード: ${encoding}`);
+  }
+  if (reference.flags) {
+    lines.push('', `フラグ: ${reference.flags}`);
+  }
+  return lines.join("\n");
+}
@@ -1,8 +1,17 @@
 import { isASCII } from "./utils";
 
-export type InputFunction = () => Promise<string>;
+// 入力の終わりに達した場合はnullを返す
+export type InputFunction = () => Promise<string | null>;
 export type OutputFunction = (value: string) => Promise<void>
 
+// ASCIIでない文字を含む行を読んだ場合のエラー。実行中の命令の番地はMachineがRuntimeErrorに付け直す
+export class InputError extends Error {
+  constructor(readonly value: string) {
+    super(`不正な入力 ${value}`);
+    this.name = 'InputError';
+  }
+}
+
 export class IO {
   constructor(
     private inputFunction: InputFunction,
@@ -10,10 +19,10 @@ export class IO {
   ) {
   }
 
-  async in(): Promise<string> {
+  async in(): Promise<string | null> {
     const value = await this.inputFunction();
-    if (!isASCII(value)) {
-      throw new Error(`不正な入力 ${value}`);
+    if (value !== null && !isASCII(value)) {
+      throw new InputError(value);
     }
     return value;
   }
@@ -0,0 +1,451 @@
+import { ParsedSource, SourceLine, SourceToken, GENERAL_REGISTER_NAMES, parseSource, toWordHex } from "./utils";
+import { Memory } from "./memory";
+import { Compiler, ProgramSymbol } from "./compiler";
+import { Diagnostic } from "./diagnostics";
+import { createListing, CrossReference } from "./listing";
+import { parseLine } from "./source_parser";
+import { INSTRUCTION_REFERENCES, findInstructionReference, describeInstruction } from "./instruction_reference";
+import {
+  ProtocolMessage, isProtocolMessage, objectField, arrayField, stringField, numberField, booleanField
+} from "./message_stream";
+
+// Language Server Protocol で使う定数のうち必要なもの
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+const SEVERITY_ERROR = 1;
+const SEVERITY_WARNING = 2;
+const COMPLETION_KIND_VARIABLE = 6;
+const COMPLETION_KIND_KEYWORD = 14;
+const COMPLETION_KIND_REFERENCE = 18;
+const SYMBOL_KIND_MODULE = 2;
+const SYMBOL_KIND_FUNCTION = 12;
+const SYMBOL_KIND_VARIABLE = 13;
+const ERROR_METHOD_NOT_FOUND = -32601;
+const ERROR_INTERNAL = -32603;
+
+// 0から数える行と桁。桁はUTF-16の単位だが、CASL IIのソースはASCIIなので文字数と同じ
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface MarkupContent {
+  kind: 'markdown';
+  value: string;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: number;
+  detail: string;
+  documentation?: MarkupContent;
+}
+
+export interface Hover {
+  contents: MarkupContent;
+  range: Range;
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+export interface ProtocolDiagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+}
+
+export interface InitializeResult {
+  capabilities: { [key: string]: number | boolean | ProtocolMessage };
+  serverInfo: { name: string };
+}
+
+// 要求への応答の結果。通知にはundefinedを返し、応答しない
+export type LanguageServerResult = InitializeResult | CompletionItem[] | Hover | Location | Location[] | DocumentSymbol[] | null | undefined;
+
+// STARTからENDまでの範囲。添字はソースの行の添字
+interface ModuleRange {
+  name: string;
+  label: SourceToken;
+  beginIndex: number;
+  endIndex: number;
+}
+
+interface DocumentAnalysis {
+  source: ParsedSource;
+  diagnostics: Diagnostic[];
+  symbols: ProgramSymbol[];
+  crossReferences: CrossReference[];
+  modules: ModuleRange[];
+}
+
+// 対応していない要求。JSON-RPCのMethodNotFoundとして応答する
+class MethodNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MethodNotFoundError';
+  }
+}
+
+function textDocumentUri(params: ProtocolMessage): string {
+  const uri = stringField(objectField(params, 'textDocument'), 'uri');
+  if (uri === undefined) {
+    throw new Error('textDocument.uriがない');
+  }
+  return uri;
+}
+
+function positionOf(params: ProtocolMessage): Position {
+  const position = objectField(params, 'position');
+  return { line: numberField(position, 'line') || 0, character: numberField(position, 'character') || 0 };
+}
+
+function rangeOfToken(line: SourceLine, token: SourceToken): Range {
+  return {
+    start: { line: line.lineNumber - 1, character: token.column - 1 },
+    end: { line: line.lineNumber - 1, character: token.column - 1 + token.value.length }
+  };
+}
+
+function tokensOf(line: SourceLine): SourceToken[] {
+  return [line.label, line.instruction, ...line.operands].filter((token): token is SourceToken => token !== null);
+}
+
+// 字句の直後にカーソルがある場合もその字句とする
+function tokenAt(line: SourceLine, character: number): SourceToken | null {
+  return tokensOf(line).find(token => token.column - 1 <= character && character <= token.column - 1 + token.value.length) || null;
+}
+
+function findModules(source: ParsedSource): ModuleRange[] {
+  const modules: ModuleRange[] = [];
+  let current: ModuleRange | null = null;
+  source.forEach((line, index) => {
+    const instruction = line.instruction ? line.instruction.value : null;
+    if (instruction === 'START' && line.label) {
+      if (current) {
+        current.endIndex = index - 1;
+      }
+      current = { name: line.label.value, label: line.label, beginIndex: index, endIndex: source.length - 1 };
+      modules.push(current);
+    } else if (instruction === 'END' && current) {
+      current.endIndex = index;
+      current = null;
+    }
+  });
+  return modules;
+}
+
+function analyze(text: string): DocumentAnalysis {
+  const source = parseSource(text);
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  try {
+    compiler.compile();
+  } catch (e) {
+    // 配置が主記憶に収まらない場合など、行の誤りとして扱えないもの
+    return {
+      source,
+      diagnostics: [{ severity: 'error', code: 'out-of-range', fileName: null, line: 1, column: 1, message: e.message }],
+      symbols: [],
+      crossReferences: [],
+      modules: findModules(source)
+    };
+  }
+  return {
+    source,
+    diagnostics: compiler.diagnostics(),
+    symbols: compiler.symbols(),
+    crossReferences: createListing(compiler, memory, source).crossReferences,
+    modules: findModules(source)
+  };
+}
+
+/**
+ * CASL IIのソースを編集するエディタに、Language Server Protocol で診断・補完・説明・ラベルの定義と参照を返す。
+ * sendに応答と通知を渡す。文書は変更のたびに全体を受け取ってアセンブルし直す
+ */
+export class LanguageServer {
+  private documents = new Map<string, DocumentAnalysis>();
+  private shutdownRequested = false;
+  private exitCodeValue: number | null = null;
+
+  constructor(private send: (message: ProtocolMessage) => void) {
+  }
+
+  // exitの通知を受けるまではnull
+  exitCode(): number | null {
+    return this.exitCodeValue;
+  }
+
+  handle(message: ProtocolMessage) {
+    const isRequest = message.id !== undefined && message.id !== null;
+    let result: LanguageServerResult;
+    try {
+      result = this.dispatch(stringField(message, 'method') || '', objectField(message, 'params'));
+    } catch (e) {
+      if (isRequest) {
+        const code = e instanceof MethodNotFoundError ? ERROR_METHOD_NOT_FOUND : ERROR_INTERNAL;
+        this.send({ jsonrpc: '2.0', id: message.id, error: { code, message: e.message } });
+      }
+      return;
+    }
+    if (isRequest) {
+      this.send({ jsonrpc: '2.0', id: message.id, result: result === undefined ? null : result });
+    }
+  }
+
+  private dispatch(method: string, params: ProtocolMessage): LanguageServerResult {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+            completionProvider: {},
+            hoverProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            documentSymbolProvider: true
+          },
+          serverInfo: { name: 'comet2' }
+        };
+      case 'initialized':
+        return undefined;
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'exit':
+        this.exitCodeValue = this.shutdownRequested ? 0 : 1;
+        return undefined;
+      case 'textDocument/didOpen':
+        this.update(textDocumentUri(params), stringField(objectField(params, 'textDocument'), 'text') || '');
+        return undefined;
+      case 'textDocument/didChange': {
+        // 全体を送る同期なので、最後の変更が文書の全体になる
+        const changes = arrayField(params, 'contentChanges').filter(isProtocolMessage);
+        const last = changes[changes.length - 1];
+        this.update(textDocumentUri(params), (last && stringField(last, 'text')) || '');
+        return undefined;
+      }
+      case 'textDocument/didClose': {
+        const uri = textDocumentUri(params);
+        this.documents.delete(uri);
+        this.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics: [] } });
+        return undefined;
+      }
+      case 'textDocument/completion':
+        return this.completion(textDocumentUri(params), positionOf(params));
+      case 'textDocument/hover':
+        return this.hover(textDocumentUri(params), positionOf(params));
+      case 'textDocument/definition':
+        return this.definition(textDocumentUri(params), positionOf(params));
+      case 'textDocument/references':
+        return this.references(textDocumentUri(params), positionOf(params), booleanField(objectField(params, 'context'), 'includeDeclaration') !== false);
+      case 'textDocument/documentSymbol':
+        return this.documentSymbols(textDocumentUri(params));
+      default:
+        if (method && method.startsWith('$/')) {
+          // 実装しなくてよい通知・要求
+          return undefined;
+        }
+        throw new MethodNotFoundError(`未対応の要求 ${method}`);
+    }
+  }
+
+  private update(uri: string, text: string) {
+    const analysis = analyze(text);
+    this.documents.set(uri, analysis);
+    this.send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics: analysis.diagnostics.map(diagnostic => this.toProtocolDiagnostic(analysis.source, diagnostic)) }
+    });
+  }
+
+  private toProtocolDiagnostic(source: ParsedSource, diagnostic: Diagnostic): ProtocolDiagnostic {
+    const line = source[diagnostic.line - 1];
+    const token = line ? tokensOf(line).find(item => item.column === diagnostic.column) : undefined;
+    const start = { line: diagnostic.line - 1, character: diagnostic.column - 1 };
+    // 字句が分からなければ行末までとする
+    const end = token ? { line: start.line, character: start.character + token.value.length } : { line: start.line, character: line ? line.text.length : 0 };
+    return {
+      range: { start, end },
+      severity: diagnostic.severity === 'error' ? SEVERITY_ERROR : SEVERITY_WARNING,
+      code: diagnostic.code,
+      source: 'comet2',
+      message: diagnostic.message
+    };
+  }
+
+  // カーソルより前の部分が命令の欄ならば命令を、オペランドの欄ならGRとラベルを候補にする
+  private completion(uri: string, position: Position): CompletionItem[] {
+    const analysis = this.documents.get(uri);
+    const line = analysis ? analysis.source[position.line] : undefined;
+    if (!analysis || !line) {
+      return [];
+    }
+    const prefix = line.text.slice(0, position.character);
+    const parsed = parseLine(prefix);
+    const endsWithBlank = /[ \t]$/.test(prefix);
+    if (parsed.comment) {
+      return [];
+    }
+    if (!parsed.instruction) {
+      // 行頭から空白までの間はラベルの欄
+      return endsWithBlank ? this.instructionItems() : [];
+    }
+    if (parsed.operands.length === 0 && !endsWithBlank) {
+      return this.instructionItems();
+    }
+    const registers = GENERAL_REGISTER_NAMES.map(name => ({ label: name, kind: COMPLETION_KIND_VARIABLE, detail: '汎用レジスタ' }));
+    const module = analysis.modules.find(item => item.beginIndex <= position.line && position.line <= item.endIndex);
+    const labels = analysis.symbols
+      .filter(symbol => symbol.moduleName === '' || (module && symbol.moduleName === module.name))
+      .map(symbol => ({
+        label: symbol.name,
+        kind: COMPLETION_KIND_REFERENCE,
+        detail: symbol.moduleName === '' ? `プログラム #${toWordHex(symbol.address)}` : `${symbol.moduleName} #${toWordHex(symbol.address)}`
+      }));
+    return [...registers, ...labels];
+  }
+
+  private instructionItems(): CompletionItem[] {
+    return INSTRUCTION_REFERENCES.map(reference => ({
+      label: reference.name,
+      kind: COMPLETION_KIND_KEYWORD,
+      detail: reference.summary,
+      documentation: { kind: 'markdown', value: describeInstruction(reference) }
+    }));
+  }
+
+  private hover(uri: string, position: Position): Hover | null {
+    const found = this.tokenAtPosition(uri, position);
+    if (!found) {
+      return null;
+    }
+    const { line, token } = found;
+    if (line.instruction === token) {
+      const reference = findInstructionReference(token.value);
+      return reference ? { contents: { kind: 'markdown', value: describeInstruction(reference) }, range: rangeOfToken(line, token) } : null;
+    }
+    const symbol = this.symbolAt(uri, position);
+    if (!symbol) {
+      return null;
+    }
+    const owner = symbol.moduleName === '' ? 'プログラム' : symbol.moduleName;
+    return {
+      contents: { kind: 'markdown', value: `**${symbol.name}** ${owner} #${toWordHex(symbol.address)}` },
+      range: rangeOfToken(line, token)
+    };
+  }
+
+  private definition(uri: string, position: Position): Location | null {
+    const analysis = this.documents.get(uri);
+    const symbol = this.symbolAt(uri, position);
+    if (!analysis || !symbol) {
+      return null;
+    }
+    const line = analysis.source[symbol.definition.line - 1];
+    return line && line.label ? { uri, range: rangeOfToken(line, line.label) } : null;
+  }
+
+  private references(uri: string, position: Position, includeDeclaration: boolean): Location[] {
+    const analysis = this.documents.get(uri);
+    const symbol = this.symbolAt(uri, position);
+    if (!analysis || !symbol) {
+      return [];
+    }
+    const locations: Location[] = [];
+    const definitionLine = analysis.source[symbol.definition.line - 1];
+    if (includeDeclaration && definitionLine.label) {
+      locations.push({ uri, range: rangeOfToken(definitionLine, definitionLine.label) });
+    }
+    // 1行で同じラベルを何度も参照していても、その行の参照はまとめて1度だけ探す
+    const lineNumbers = [...new Set(symbol.uses.map(use => use.line))];
+    lineNumbers.forEach((lineNumber) => {
+      const line = analysis.source[lineNumber - 1];
+      line.operands
+        .filter(operand => operand.value === symbol.name)
+        .forEach(operand => locations.push({ uri, range: rangeOfToken(line, operand) }));
+    });
+    return locations;
+  }
+
+  // STARTごとにまとめ、その中にモジュール内のラベルを並べる
+  private documentSymbols(uri: string): DocumentSymbol[] {
+    const analysis = this.documents.get(uri);
+    if (!analysis) {
+      return [];
+    }
+    const { source } = analysis;
+    return analysis.modules.map((module) => {
+      const beginLine = source[module.beginIndex];
+      const endLine = source[module.endIndex];
+      const children = analysis.symbols
+        .filter(symbol => symbol.moduleName === module.name)
+        .sort((a, b) => a.sourceIndex - b.sourceIndex)
+        .map((symbol) => {
+          const line = source[symbol.sourceIndex];
+          const instruction = line.instruction ? line.instruction.value : null;
+          const range = rangeOfToken(line, line.label as SourceToken);
+          return {
+            name: symbol.name,
+            detail: `#${toWordHex(symbol.address)}`,
+            kind: instruction === 'DC' || instruction === 'DS' ? SYMBOL_KIND_VARIABLE : SYMBOL_KIND_FUNCTION,
+            range: { start: range.start, end: { line: range.start.line, character: line.text.length } },
+            selectionRange: range
+          };
+        });
+      return {
+        name: module.name,
+        kind: SYMBOL_KIND_MODULE,
+        range: {
+          start: { line: beginLine.lineNumber - 1, character: 0 },
+          end: { line: endLine.lineNumber - 1, character: endLine.text.length }
+        },
+        selectionRange: rangeOfToken(beginLine, module.label),
+        children
+      };
+    });
+  }
+
+  private tokenAtPosition(uri: string, position: Position): { line: SourceLine, token: SourceToken } | null {
+    const analysis = this.documents.get(uri);
+    const line = analysis ? analysis.source[position.line] : undefined;
+    const token = line ? tokenAt(line, position.character) : null;
+    return line && token ? { line, token } : null;
+  }
+
+  // カーソルにあるラベルの定義または参照を、アセンブラが解決したラベルに対応付ける
+  private symbolAt(uri: string, position: Position): CrossReference | null {
+    const analysis = this.documents.get(uri);
+    const found = this.tokenAtPosition(uri, position);
+    if (!analysis || !found) {
+      return null;
+    }
+    const { line, token } = found;
+    if (line.label === token) {
+      return analysis.crossReferences.find(item => item.name === token.value && item.definition.line === line.lineNumber) || null;
+    }
+    if (!line.operands.includes(token)) {
+      return null;
+    }
+    return analysis.crossReferences.find(item => item.name === token.value && item.uses.some(use => use.line === line.lineNumber)) || null;
+  }
+}
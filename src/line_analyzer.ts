@@ -1,28 +1,28 @@
-import { MACHINE_INSTRUCTION_NUMBER, WordValue, MemoryAddress, GENERAL_REGISTER_NAMES, parseConst } from "./utils";
+import { MACHINE_INSTRUCTION_NUMBER, OPERAND_COUNT_RANGE, WordValue, MemoryAddress, SourceLine, GENERAL_REGISTER_NAMES, parseConst, parseStringConst } from "./utils";
+import { AssembleError } from "./diagnostics";
 
 export class LineAnalyzer {
-  private args: string[] = []
+  private line: SourceLine | null = null;
   private operands: string[] = [];
 
   constructor() {
   }
 
-  load(args: string[]) {
-    this.args = args;
-    const operands = args[2].split(';')[0].split(',').map(item => item.trim());
-    this.operands = operands.length === 1 && operands[0] === '' ? [] : operands;
+  load(line: SourceLine) {
+    this.line = line;
+    this.operands = line.operands.map(operand => operand.value);
   }
 
   parseLabel(): string | null {
-    const label = this.args[0]
-    if (label.length) {
-      return label;
-    }
-    return null;
+    return this.line?.label?.value || null;
+  }
+
+  parseInstruction(): string | null {
+    return this.line?.instruction?.value || null;
   }
 
   isMachineInstruction(): boolean {
-    return Object.keys(MACHINE_INSTRUCTION_NUMBER).includes(this.args[1]);
+    return Object.keys(MACHINE_INSTRUCTION_NUMBER).includes(this.parseInstruction() || '');
   }
 
   buildFirstWord(): WordValue {
@@ -54,16 +54,16 @@ export class LineAnalyzer {
         }
       }
     }
-    const instructionNumber = this.toInstructionNumber(this.args[1], wordLength);
-    if (!instructionNumber) {
-      throw new Error(`未定義の機械語 ${this.args[1]}(${wordLength})`);
+    const instruction = this.parseInstruction() || '';
+    const instructionNumber = this.toInstructionNumber(instruction, wordLength);
+    if (instructionNumber === null) {
+      throw new AssembleError('unknown-instruction', `未定義の機械語 ${instruction}(${wordLength})`, instruction);
     }
     word |= instructionNumber * 0x100;
     return word;
   }
 
   hasAddrValue(): boolean {
-    // TODO: 不正な値ならここで例外
     return !!this.extractAddrRawValue();
   }
 
@@ -71,12 +71,21 @@ export class LineAnalyzer {
     return this.extractAddrRawValue();
   }
 
-  parseLiteralValue(): WordValue | null {
+  parseLiteralValue(): WordValue[] | null {
     const value = this.extractAddrRawValue();
     if (!value || !value.startsWith('=')) {
       return null;
     }
-    return parseConst(value.substring(1));
+    const literal = value.substring(1);
+    const chars = parseStringConst(literal);
+    if (chars !== null) {
+      return chars;
+    }
+    const constValue = parseConst(literal);
+    if (constValue === null) {
+      throw new AssembleError('invalid-literal', `不正なリテラル ${value}`, value);
+    }
+    return [constValue];
   }
 
   parseAddrConstAddr(): MemoryAddress | null {
@@ -87,6 +96,14 @@ export class LineAnalyzer {
     return [...this.operands];
   }
 
+  checkOperandCount(): boolean {
+    const range = OPERAND_COUNT_RANGE[this.parseInstruction() || ''];
+    if (!range) {
+      return true;
+    }
+    return range[0] <= this.operands.length && this.operands.length <= range[1];
+  }
+
   private extractAddrRawValue(): string | null {
     if (this.operands[0]?.length > 0 && !this.isGeneralRegister(this.operands[0])) {
       return this.operands[0];
@@ -107,7 +124,7 @@ export class LineAnalyzer {
 
   private toInstructionNumber(name: string, length: number): number | null {
     const value = MACHINE_INSTRUCTION_NUMBER[name];
-    if (value && value[length]) {
+    if (value && value[length] !== undefined) {
       return value[length];
     }
     return null;
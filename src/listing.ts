@@ -0,0 +1,186 @@
+import { MemoryAddress, WordValue, ParsedSource, toWordHex } from "./utils";
+import { Memory } from "./memory";
+import { Compiler } from "./compiler";
+
+export interface ListingSourcePosition {
+  fileName: string | null;
+  line: number;
+}
+
+export interface ListingLine {
+  // リテラルの行は行番号を持たない
+  position: ListingSourcePosition | null;
+  address: MemoryAddress | null;
+  words: WordValue[];
+  text: string;
+  // リテラルを使っている行
+  literalOf: ListingSourcePosition | null;
+}
+
+export interface CrossReference {
+  name: string;
+  moduleName: string;
+  address: MemoryAddress;
+  definition: ListingSourcePosition;
+  uses: ListingSourcePosition[];
+}
+
+export interface Listing {
+  lines: ListingLine[];
+  crossReferences: CrossReference[];
+}
+
+// 1行に並べる語の数。これを超える分は続きの行に出す
+const WORDS_PER_ROW = 2;
+
+function positionOf(source: ParsedSource, sourceIndex: number): ListingSourcePosition {
+  const line = source[sourceIndex];
+  return { fileName: line.fileName, line: line.lineNumber };
+}
+
+function formatPosition(position: ListingSourcePosition, withFileName: boolean): string {
+  return withFileName && position.fileName !== null ? `${position.fileName}:${position.line}` : `${position.line}`;
+}
+
+// アセンブルが終わった直後のMemoryの内容からリストを作る
+export function createListing(compiler: Compiler, memory: Memory, source: ParsedSource): Listing {
+  const locations = compiler.sourceLocations();
+  const literals = compiler.literals();
+  const lines: ListingLine[] = [];
+  source.forEach((line, sourceIndex) => {
+    const location = locations[sourceIndex];
+    // DSの領域は内容を並べない
+    const isStorage = line.instruction !== null && line.instruction.value === 'DS';
+    const size = location && !isStorage ? location.size : 0;
+    const words: WordValue[] = [];
+    for (let i = 0; i < size; i++) {
+      words.push(memory.peekValueAt(location.address + i) || 0);
+    }
+    lines.push({
+      position: positionOf(source, sourceIndex),
+      address: location && (line.instruction !== null || line.label !== null) ? location.address : null,
+      words,
+      text: line.text,
+      literalOf: null
+    });
+    literals
+      .filter(literal => literal.poolSourceIndex === sourceIndex)
+      .forEach((literal) => {
+        lines.push({ position: null, address: literal.address, words: literal.values, text: literal.text, literalOf: positionOf(source, literal.sourceIndex) });
+      });
+  });
+
+  const references = compiler.references();
+  const symbols = compiler.symbols();
+  const crossReferences = symbols
+    .map(symbol => ({
+      name: symbol.name,
+      moduleName: symbol.moduleName,
+      address: symbol.address,
+      definition: positionOf(source, symbol.sourceIndex),
+      uses: references
+        .filter((reference) => {
+          if (reference.label !== symbol.name) {
+            return false;
+          }
+          // モジュール内のラベルが優先され、なければSTARTのラベルを参照する
+          if (symbol.moduleName !== '') {
+            return reference.moduleName === symbol.moduleName;
+          }
+          return !symbols.some(item => item.moduleName === reference.moduleName && item.name === reference.label);
+        })
+        .map(reference => positionOf(source, reference.sourceIndex))
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.moduleName.localeCompare(b.moduleName));
+  return { lines, crossReferences };
+}
+
+function hasMultipleFiles(listing: Listing): boolean {
+  const fileNames = new Set(listing.lines.filter(line => line.position !== null).map(line => (line.position as ListingSourcePosition).fileName));
+  return fileNames.size > 1;
+}
+
+function rowsOf(line: ListingLine): { address: MemoryAddress | null, words: WordValue[] }[] {
+  if (line.words.length === 0) {
+    return [{ address: line.address, words: [] }];
+  }
+  const rows: { address: MemoryAddress | null, words: WordValue[] }[] = [];
+  for (let i = 0; i < line.words.length; i += WORDS_PER_ROW) {
+    rows.push({ address: (line.address as MemoryAddress) + i, words: line.words.slice(i, i + WORDS_PER_ROW) });
+  }
+  return rows;
+}
+
+export function renderListingText(listing: Listing): string {
+  const withFileName = hasMultipleFiles(listing);
+  const result: string[] = [];
+  result.push(`${'LINE'.padStart(5)}  ADDR  CODE       SOURCE`);
+  listing.lines.forEach((line) => {
+    rowsOf(line).forEach((row, index) => {
+      const lineNumber = index === 0 && line.position ? formatPosition(line.position, withFileName) : '';
+      const address = row.address !== null ? toWordHex(row.address) : '';
+      const words = row.words.map(toWordHex).join(' ');
+      let text = '';
+      if (index === 0) {
+        text = line.literalOf ? `${line.text}  ; ${formatPosition(line.literalOf, withFileName)}行目` : line.text;
+      }
+      result.push(`${lineNumber.padStart(5)}  ${address.padEnd(4)}  ${words.padEnd(9)}  ${text}`.trimRight());
+    });
+  });
+  result.push('');
+  result.push('SYMBOL    MODULE    ADDR  DEFINED  USED');
+  listing.crossReferences.forEach((item) => {
+    const uses = item.uses.map(position => formatPosition(position, withFileName)).join(' ');
+    result.push(`${item.name.padEnd(8)}  ${item.moduleName.padEnd(8)}  ${toWordHex(item.address)}  ${formatPosition(item.definition, withFileName).padEnd(7)}  ${uses}`.trimRight());
+  });
+  return `${result.join("\n")}\n`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderListingHtml(listing: Listing, title = 'Assembly listing'): string {
+  const withFileName = hasMultipleFiles(listing);
+  const sourceRows = listing.lines.map((line) => {
+    const rows = rowsOf(line);
+    const lineNumber = line.position ? formatPosition(line.position, withFileName) : '';
+    const text = line.literalOf ? `${line.text} ; ${formatPosition(line.literalOf, withFileName)}行目` : line.text;
+    const address = rows.map(row => (row.address !== null ? toWordHex(row.address) : '')).join('<br>');
+    const words = rows.map(row => row.words.map(toWordHex).join(' ')).join('<br>');
+    const className = line.literalOf ? ' class="literal"' : '';
+    return `<tr${className}><td>${escapeHtml(lineNumber)}</td><td>${address}</td><td>${words}</td><td>${escapeHtml(text)}</td></tr>`;
+  });
+  const symbolRows = listing.crossReferences.map((item) => {
+    const uses = item.uses.map(position => formatPosition(position, withFileName)).join(' ');
+    return `<tr><td>${escapeHtml(item.name)}</td><td>${escapeHtml(item.moduleName)}</td><td>${toWordHex(item.address)}</td>`
+      + `<td>${escapeHtml(formatPosition(item.definition, withFileName))}</td><td>${escapeHtml(uses)}</td></tr>`;
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>table{border-collapse:collapse;font-family:monospace}td,th{padding:0 8px;text-align:left;vertical-align:top;white-space:pre}tr.literal{color:#666}</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<table>',
+    '<tr><th>LINE</th><th>ADDR</th><th>CODE</th><th>SOURCE</th></tr>',
+    ...sourceRows,
+    '</table>',
+    '<h2>Cross reference</h2>',
+    '<table>',
+    '<tr><th>SYMBOL</th><th>MODULE</th><th>ADDR</th><th>DEFINED</th><th>USED</th></tr>',
+    ...symbolRows,
+    '</table>',
+    '</body>',
+    '</html>',
+    ''
+  ].join("\n");
+}
@@ -0,0 +1,76 @@
+import { WordValue } from "./utils";
+import { Memory, MEMORY_SIZE } from "./memory";
+import { Register } from "./register";
+
+// 番地ごとに値の変化を散らしてメモリ全体のハッシュに足し込む
+function memoryHashDelta(address: number, previous: WordValue, value: WordValue): number {
+  return Math.imul(value - previous, Math.imul(address + 1, 0x9E3779B1) | 1);
+}
+
+/**
+ * レジスタとメモリの内容がまったく同じ状態に2度なったこと、つまり抜け出せない無限ループを見つける。
+ * Brentの方法で、1つだけ覚えた状態と毎命令比べる。メモリはハッシュが一致した場合だけ全体を比べる
+ */
+export class LoopDetector {
+  private savedRegisters: number[] | null = null;
+  private savedMemory: Uint16Array | null = null;
+  private savedMemoryHash = 0;
+  private memoryHash = 0;
+  private power = 1;
+  private distance = 0;
+
+  constructor(private memory: Memory, private register: Register) {
+  }
+
+  // Memoryへ書き込むたびに呼ぶ
+  notifyWrite(address: number, previous: WordValue | undefined, value: WordValue) {
+    this.memoryHash = (this.memoryHash + memoryHashDelta(address, previous || 0, value)) | 0;
+  }
+
+  // 入出力をはさんだ場合など、それまでの状態と比べられなくなったときに呼ぶ
+  reset() {
+    this.savedRegisters = null;
+    this.savedMemory = null;
+    this.power = 1;
+    this.distance = 0;
+  }
+
+  // 命令を実行する前に呼ぶ。覚えている状態と同じならtrueを返す
+  check(): boolean {
+    const registers = this.registerState();
+    if (this.savedRegisters && this.memoryHash === this.savedMemoryHash
+      && registers.every((value, index) => value === (this.savedRegisters as number[])[index])
+      && this.memoryEquals(this.savedMemory as Uint16Array)) {
+      return true;
+    }
+    this.distance += 1;
+    if (!this.savedRegisters || this.distance >= this.power) {
+      this.savedRegisters = registers;
+      this.savedMemory = this.memory.dumpRange(0, MEMORY_SIZE);
+      this.savedMemoryHash = this.memoryHash;
+      this.power *= 2;
+      this.distance = 0;
+    }
+    return false;
+  }
+
+  private registerState(): number[] {
+    const register = this.register;
+    return [
+      register.getProgramCounter(), register.getStackPointer(),
+      register.getOverflowFlag(), register.getSignFlag(), register.getZeroFlag(),
+      register.getGRAt(0), register.getGRAt(1), register.getGRAt(2), register.getGRAt(3),
+      register.getGRAt(4), register.getGRAt(5), register.getGRAt(6), register.getGRAt(7)
+    ];
+  }
+
+  private memoryEquals(saved: Uint16Array): boolean {
+    const current = this.memory.dumpRange(0, MEMORY_SIZE);
+    for (let address = 0; address < MEMORY_SIZE; address++) {
+      if (current[address] !== saved[address]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -1,33 +1,69 @@
-import { MACHINE_INSTRUCTION_NUMBER, WordValue, toWordHex, isASCII } from "./utils";
-import { Memory } from "./memory";
+import { MACHINE_INSTRUCTION_NUMBER, INITIAL_STACK_POINTER, INPUT_BUFFER_SIZE, MemoryAddress, WordValue, FlagValue } from "./utils";
+import {
+  WordFlags, toWord, toSigned, flagsOf, logicalResultOf, addArithmetic, subtractArithmetic, addLogical, subtractLogical,
+  compareArithmetic, compareLogical, shiftLeftArithmetic, shiftRightArithmetic, shiftLeftLogical, shiftRightLogical
+} from "./word";
+import { Memory, MemoryAccessError, MEMORY_SIZE } from "./memory";
 import { Register } from "./register";
-import { IO } from './io';
+import { IO, InputError } from './io';
+import { RuntimeError } from './errors';
+import { SVC_IN, SVC_OUT } from './macro';
+import {
+  ExecutionHistory, HistoryEntry, REGISTER_SLOT_STACK_POINTER, REGISTER_SLOT_FLAGS, hasMemoryWrite, previousMemoryValue
+} from './history';
+import { Tracer } from './tracer';
+import { Profiler } from './profiler';
+import { LoopDetector } from './loop_detector';
+import { EventEmitter } from './events';
+
+// 番地ごとに命令をデコードした結果。その番地か次の番地の値が変わると捨てる
+interface DecodedInstruction {
+  word: WordValue;
+  instructionNumber: number;
+  instructionImpl: MachineInstruction | undefined;
+  gR1: number;
+  gR2OrIR: number;
+  // 2語目の値。初めて読むまでと、未書き込みの間はnull
+  addr: WordValue | null;
+}
 
 abstract class MachineInstruction {
   protected memory!: Memory;
   protected register!: Register;
+  // 実行する命令のデコード結果。Machineが実行の直前に読み込む
+  private decoded!: DecodedInstruction;
 
-  async abstract evaluate(): Promise<number>;
+  abstract evaluate(): number;
 
   setup(memory: Memory, register: Register) {
     this.memory = memory;
     this.register = register;
   }
 
-  private instructionWord(): WordValue {
-    return this.memory.getValueAt(this.register.getProgramCounter());
+  load(decoded: DecodedInstruction) {
+    this.decoded = decoded;
   }
 
   protected gR1Value(): number {
-    return (this.instructionWord() & 0xF0) >> 4;
+    return this.decoded.gR1;
   }
 
   protected gR2OrIRValue(): number {
-    return this.instructionWord() & 0xF;
+    return this.decoded.gR2OrIR;
   }
 
+  // 未書き込みの語は厳密モードでエラーにするため、書き込まれていなければ毎回読む
   protected addrValue(): number {
-    return this.memory.getValueAt(this.register.getProgramCounter() + 1);
+    const { decoded } = this;
+    if (decoded.addr !== null) {
+      return decoded.addr;
+    }
+    const address = this.register.getProgramCounter() + 1;
+    const value = this.memory.getValueAt(address);
+    if (this.memory.isInitialized(address)) {
+      decoded.addr = value;
+    }
+    return value;
   }
 
   protected addrIRAddedValue(): number {
@@ -35,115 +71,259 @@ abstract class MachineInstruction {
     if (this.gR2OrIRValue() !== 0) {
       addr += this.register.getGRAt(this.gR2OrIRValue());
     }
-    return addr;
+    return toWord(addr);
   }
 
-  protected setFlags(value: number) {
-    if (value > 0) {
-      this.register.setFlags(0, 0, 0);
-    } else if (value === 0) {
-      this.register.setFlags(0, 0, 1);
-    } else {
-      this.register.setFlags(0, 1, 0);
-    }
+  protected nextAddress(step: number): number {
+    return toWord(this.register.getProgramCounter() + step);
+  }
+
+  protected setFlags(flags: WordFlags) {
+    this.register.setFlags(flags.overflow, flags.sign, flags.zero);
+  }
+}
+
+class NOP1 extends MachineInstruction {
+  evaluate(): number {
+    return 1;
   }
 }
 
 class AND1 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.register.getGRAt(this.gR1Value()) & this.register.getGRAt(this.gR2OrIRValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) & this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 1;
   }
 }
 
 class AND2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.register.getGRAt(this.gR1Value()) & this.memory.getValueAt(this.addrIRAddedValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) & this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class OR1 extends MachineInstruction {
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) | this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 1;
+  }
+}
+
+class OR2 extends MachineInstruction {
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) | this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class XOR1 extends MachineInstruction {
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) ^ this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 1;
+  }
+}
+
+class XOR2 extends MachineInstruction {
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR1Value()) ^ this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 2;
   }
 }
 
 class LD1 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.register.getGRAt(this.gR2OrIRValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+  evaluate(): number {
+    const result = logicalResultOf(this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 1;
   }
 }
 
 class LD2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.memory.getValueAt(this.addrIRAddedValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+  evaluate(): number {
+    const result = logicalResultOf(this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 2;
   }
 }
 
 class LAD2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     this.register.setGRAt(this.gR1Value(), this.addrIRAddedValue());
     return 2;
   }
 }
 
 class ST2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     this.memory.setValueAt(this.addrIRAddedValue(), this.register.getGRAt(this.gR1Value()));
     return 2;
   }
 }
 
-class SUBA1 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    // TODO: オーバーフロー要考慮
-    const result = this.register.getGRAt(this.gR1Value()) - this.register.getGRAt(this.gR2OrIRValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+class ADDA1 extends MachineInstruction {
+  evaluate(): number {
+    const result = addArithmetic(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 1;
   }
 }
 
 class ADDA2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    // TODO: オーバーフロー要考慮
-    const result = this.register.getGRAt(this.gR1Value()) + this.memory.getValueAt(this.addrIRAddedValue());
-    this.register.setGRAt(this.gR1Value(), result);
-    this.setFlags(result);
+  evaluate(): number {
+    const result = addArithmetic(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class SUBA1 extends MachineInstruction {
+  evaluate(): number {
+    const result = subtractArithmetic(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 1;
+  }
+}
+
+class SUBA2 extends MachineInstruction {
+  evaluate(): number {
+    const result = subtractArithmetic(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class ADDL1 extends MachineInstruction {
+  evaluate(): number {
+    const result = addLogical(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 1;
+  }
+}
+
+class ADDL2 extends MachineInstruction {
+  evaluate(): number {
+    const result = addLogical(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class SUBL1 extends MachineInstruction {
+  evaluate(): number {
+    const result = subtractLogical(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 1;
+  }
+}
+
+class SUBL2 extends MachineInstruction {
+  evaluate(): number {
+    const result = subtractLogical(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
     return 2;
   }
 }
 
 class CPA1 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.register.getGRAt(this.gR1Value()) - this.register.getGRAt(this.gR2OrIRValue());
+  evaluate(): number {
+    const result = compareArithmetic(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
     this.setFlags(result);
     return 1;
   }
 }
 
 class CPA2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
-    const result = this.register.getGRAt(this.gR1Value()) - this.memory.getValueAt(this.addrIRAddedValue());
+  evaluate(): number {
+    const result = compareArithmetic(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
     this.setFlags(result);
     return 2;
   }
 }
 
+class CPL1 extends MachineInstruction {
+  evaluate(): number {
+    const result = compareLogical(this.register.getGRAt(this.gR1Value()), this.register.getGRAt(this.gR2OrIRValue()));
+    this.setFlags(result);
+    return 1;
+  }
+}
+
+class CPL2 extends MachineInstruction {
+  evaluate(): number {
+    const result = compareLogical(this.register.getGRAt(this.gR1Value()), this.memory.getValueAt(this.addrIRAddedValue()));
+    this.setFlags(result);
+    return 2;
+  }
+}
+
+class SLA2 extends MachineInstruction {
+  evaluate(): number {
+    const result = shiftLeftArithmetic(this.register.getGRAt(this.gR1Value()), this.addrIRAddedValue());
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class SRA2 extends MachineInstruction {
+  evaluate(): number {
+    const result = shiftRightArithmetic(this.register.getGRAt(this.gR1Value()), this.addrIRAddedValue());
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class SLL2 extends MachineInstruction {
+  evaluate(): number {
+    const result = shiftLeftLogical(this.register.getGRAt(this.gR1Value()), this.addrIRAddedValue());
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
+class SRL2 extends MachineInstruction {
+  evaluate(): number {
+    const result = shiftRightLogical(this.register.getGRAt(this.gR1Value()), this.addrIRAddedValue());
+    this.register.setGRAt(this.gR1Value(), result.value);
+    this.setFlags(flagsOf(result));
+    return 2;
+  }
+}
+
 class JUMP2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     this.register.setProgramCounter(this.addrIRAddedValue());
     return 0;
   }
 }
 
 class JZE2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     if (this.register.getZeroFlag() === 1) {
       this.register.setProgramCounter(this.addrIRAddedValue());
       return 0;
@@ -153,7 +333,7 @@ class JZE2 extends MachineInstruction {
 }
 
 class JMI2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     if (this.register.getSignFlag() === 1) {
       this.register.setProgramCounter(this.addrIRAddedValue());
       return 0;
@@ -163,7 +343,7 @@ class JMI2 extends MachineInstruction {
 }
 
 class JPL2 extends MachineInstruction {
-  async evaluate(): Promise<number> {
+  evaluate(): number {
     if (this.register.getSignFlag() === 0 && this.register.getZeroFlag() === 0) {
       this.register.setProgramCounter(this.addrIRAddedValue());
       return 0;
@@ -172,6 +352,81 @@ class JPL2 extends MachineInstruction {
   }
 }
 
+class JNZ2 extends MachineInstruction {
+  evaluate(): number {
+    if (this.register.getZeroFlag() === 0) {
+      this.register.setProgramCounter(this.addrIRAddedValue());
+      return 0;
+    }
+    return 2;
+  }
+}
+
+class JOV2 extends MachineInstruction {
+  evaluate(): number {
+    if (this.register.getOverflowFlag() === 1) {
+      this.register.setProgramCounter(this.addrIRAddedValue());
+      return 0;
+    }
+    return 2;
+  }
+}
+
+abstract class StackInstruction extends MachineInstruction {
+  private stackLimit: MemoryAddress = 0;
+
+  setStackLimit(stackLimit: MemoryAddress) {
+    this.stackLimit = stackLimit;
+  }
+
+  protected push(value: WordValue) {
+    const stackPointer = toWord(this.register.getStackPointer() - 1);
+    if (stackPointer < this.stackLimit) {
+      throw new RuntimeError('スタックオーバーフロー', this.register.getProgramCounter());
+    }
+    this.register.setStackPointer(stackPointer);
+    this.memory.setValueAt(stackPointer, value);
+  }
+
+  protected pop(): WordValue {
+    const stackPointer = this.register.getStackPointer();
+    if (stackPointer === INITIAL_STACK_POINTER) {
+      throw new RuntimeError('スタックアンダーフロー', this.register.getProgramCounter());
+    }
+    this.register.setStackPointer(stackPointer + 1);
+    return this.memory.getValueAt(stackPointer);
+  }
+}
+
+class PUSH2 extends StackInstruction {
+  evaluate(): number {
+    this.push(this.addrIRAddedValue());
+    return 2;
+  }
+}
+
+class POP1 extends StackInstruction {
+  evaluate(): number {
+    this.register.setGRAt(this.gR1Value(), this.pop());
+    return 1;
+  }
+}
+
+class CALL2 extends StackInstruction {
+  evaluate(): number {
+    this.push(this.nextAddress(2));
+    this.register.setProgramCounter(this.addrIRAddedValue());
+    return 0;
+  }
+}
+
+class RET1 extends StackInstruction {
+  evaluate(): number {
+    this.register.setProgramCounter(this.pop());
+    return 0;
+  }
+}
+
 class SVC2 extends MachineInstruction {
   private io!: IO;
 
@@ -179,107 +434,658 @@ class SVC2 extends MachineInstruction {
     this.io = io;
   }
 
-  async evaluate(): Promise<number> {
-    const instruction = this.memory.getValueAt(this.register.getProgramCounter());
-    const typeValue = instruction & 0xF;
-    if (typeValue === 1) {
-      await this.io.out('[debug] 文字列を入力してください');
-      // 入力
+  evaluate(): number {
+    throw new Error('SVCは入出力を待つためevaluateIOで実行する');
+  }
+
+  async evaluateIO(): Promise<number> {
+    const functionNumber = this.addrIRAddedValue();
+    const bufferAddr = this.register.getGRAt(1);
+    const lengthAddr = this.register.getGRAt(2);
+    if (functionNumber === SVC_IN) {
       const value = await this.io.in();
-      const dataAddr = this.memory.getValueAt(this.register.getProgramCounter() + 1);
-      const lengthAddr = this.memory.getValueAt(this.register.getProgramCounter() + 2);
-      for (let i=0; i<value.length; i++) {
-        this.memory.setValueAt(dataAddr + i, value[i].charCodeAt(0));
-      }
-      this.memory.setValueAt(lengthAddr, value.length);
-      return 3;
-    } 
-     if (typeValue === 2) {
-      // 出力
-      const dataAddr = this.memory.getValueAt(this.register.getProgramCounter() + 1);
-      const lengthAddr = this.memory.getValueAt(this.register.getProgramCounter() + 2);
+      if (value === null) {
+        // EOFは長さ-1で表す
+        this.memory.setValueAt(lengthAddr, -1);
+        return 2;
+      }
+      const line = value.slice(0, INPUT_BUFFER_SIZE);
+      for (let i = 0; i < line.length; i++) {
+        this.memory.setValueAt(bufferAddr + i, line.charCodeAt(i));
+      }
+      this.memory.setValueAt(lengthAddr, line.length);
+      return 2;
+    }
+    if (functionNumber === SVC_OUT) {
       const length = this.memory.getValueAt(lengthAddr);
-      await this.io.out(`---\n[debug] OUT From: #${toWordHex(dataAddr)} Length: ${length}\n---`);
+      if (length > INPUT_BUFFER_SIZE) {
+        // EOFの後の長さ-1などをそのまま使うと、65535文字を出力してしまう
+        throw new RuntimeError(`不正な出力の長さ ${toSigned(length)}`, this.register.getProgramCounter());
+      }
       let result = '';
       for (let i = 0; i < length; i++) {
-        result += `${String.fromCharCode(this.memory.getValueAt(dataAddr + i))}`;
+        result += String.fromCharCode(this.memory.getValueAt(bufferAddr + i));
       }
-      await this.io.out(`${result}\n---`);
-      return 3;
+      await this.io.out(result);
+      return 2;
     }
-    return 1;
+    throw new RuntimeError(`未定義のSVC ${functionNumber}`, this.register.getProgramCounter());
+  }
+}
+
+// 1命令の実行結果。'svc'のSVCは入出力を待つため、まだ実行していない
+type StepResult = 'next' | 'svc' | 'halt';
+
+/**
+ * Machine.executeで実行を打ち切る条件
+ *
+ * - maxSteps: 実行する命令数の上限
+ * - timeout: 実行を始めてからの時間の上限(ミリ秒)。IN命令の入力を待つ間も数える
+ * - signal: 実行を中断するためのAbortSignal。AbortControllerのない環境では同じ形のStopSignalを渡す
+ * - detectLoop: レジスタとメモリがまったく同じ状態に2度なったら止める
+ */
+export interface ExecutionLimits {
+  maxSteps?: number;
+  timeout?: number;
+  signal?: StopSignal;
+  detectLoop?: boolean;
+}
+
+// AbortSignalのうち、Machineが中断を知るために使う部分
+export interface StopSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export type StopReason = 'halted' | 'step-limit' | 'timeout' | 'aborted' | 'infinite-loop' | 'runtime-error';
+
+export interface ExecutionResult {
+  reason: StopReason;
+  // 止まった時点のPC。実行時エラーならエラーになった命令の番地
+  programCounter: MemoryAddress;
+  steps: number;
+  // reasonが'runtime-error'のときのエラー
+  error: RuntimeError | null;
+}
+
+/**
+ * MemoryとRegisterの外にある実行の状態。スナップショットに保存する
+ *
+ * - steps: 実行し終えた命令の数
+ * - stackLimit: スタックとして使える領域の下限
+ * - inputs: IN命令がまだ読んでいない入力の行。nullは入力の終わり
+ */
+export interface MachineState {
+  steps: number;
+  stackLimit: MemoryAddress;
+  inputs: (string | null)[];
+}
+
+// 命令の読み出し、SVCによる入出力、OSへの復帰、実行の失敗
+export interface MachineEvents {
+  'instruction-fetched': { address: MemoryAddress, word: WordValue };
+  // inでは入力を待つ前に通知し、valueはnullになる。outではvalueに出力する文字列が入る
+  'io-requested': { kind: 'in' | 'out', address: MemoryAddress, value: string | null };
+  'halted': { programCounter: MemoryAddress, steps: number };
+  'error': { error: Error };
+}
+
+// 時間切れと中断を確かめる間隔(命令数)
+const LIMIT_CHECK_INTERVAL = 0x4000;
+
+// 入力を待っている間に時間切れか中断になったことを知らせる
+class ExecutionStopped extends Error {
+  constructor(readonly reason: StopReason) {
+    super(reason);
+    this.name = 'ExecutionStopped';
   }
 }
 
+// 時間切れか中断で解決するPromise。cancelでタイマーとリスナーを外す
+function waitForStop(timeout: number, signal: StopSignal | null): { stopped: Promise<StopReason>, cancel(): void } {
+  let cancel = () => {};
+  const stopped = new Promise<StopReason>((resolve) => {
+    const timer = timeout !== Infinity ? setTimeout(() => resolve('timeout'), timeout) : null;
+    const onAbort = () => resolve('aborted');
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
+    cancel = () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
+  });
+  return { stopped, cancel };
+}
+
 export class Machine {
+  readonly events = new EventEmitter<MachineEvents>();
+  // 命令の番号を添字とする、このMachineのMemoryとRegisterを設定済みの実装
+  private instructions: (MachineInstruction | undefined)[] = [];
+  // 番地を添字とする命令のデコード結果。メモリの値が変わると捨てる
+  private decoded: (DecodedInstruction | undefined)[] = new Array(MEMORY_SIZE);
+  private steps = 0;
+  private stackLimit: MemoryAddress = 0;
+  private history: ExecutionHistory | null = null;
+  private tracer: Tracer | null = null;
+  private profiler: Profiler | null = null;
+  private loopDetector: LoopDetector | null = null;
+  private recording: HistoryEntry | null = null;
+  // 巻き戻した命令やスナップショットから戻した入力。再び実行する際は先にこちらを使う
+  private replayInputs: (string | null)[] = [];
+  private historyIO: IO;
+
   constructor(
     private memory: Memory,
     private register: Register,
     private io: IO
   ) {
+    this.historyIO = new IO(() => this.readInputWithHistory(), value => this.io.out(value));
+    for (let instructionNumber = 0; instructionNumber <= 0xFF; instructionNumber++) {
+      const InstructionClass = Machine.MACHINE_INSTRUCTION_CLASSES[instructionNumber];
+      const instruction = InstructionClass ? new InstructionClass() : undefined;
+      if (instruction) {
+        instruction.setup(this.memory, this.register);
+      }
+      this.instructions.push(instruction);
+    }
+    this.memory.addChangeListener((address, size) => {
+      // 2語目として読む直前の番地の命令も捨てる
+      for (let i = -1; i < size; i++) {
+        this.decoded[(address + i) & 0xFFFF] = undefined;
+      }
+    });
   }
 
-  async execute(beginAddr: number): Promise<void> {
-    this.register.setProgramCounter(beginAddr);
-    while (true) {
-      if (await this.executeInstruction() === false) {
-        break;
+  // 1命令ごとに変わった状態を最大limit命令分まで記録し、巻き戻せるようにする
+  enableHistory(limit = 100000) {
+    this.history = new ExecutionHistory(limit);
+    this.replayInputs = [];
+    this.updateWriteListener();
+  }
+
+  disableHistory() {
+    this.history = null;
+    this.replayInputs = [];
+    this.updateWriteListener();
+  }
+
+  // nullを渡すと記録をやめる
+  setTracer(tracer: Tracer | null) {
+    this.tracer = tracer;
+    this.updateWriteListener();
+  }
+
+  // nullを渡すと計測をやめる
+  setProfiler(profiler: Profiler | null) {
+    this.profiler = profiler;
+  }
+
+  historyLength(): number {
+    return this.history ? this.history.length() : 0;
+  }
+
+  // 直前の1命令を取り消す。巻き戻せる履歴がなければfalseを返す
+  stepBack(): boolean {
+    const entry = this.history ? this.history.pop() : null;
+    if (!entry) {
+      return false;
+    }
+    for (let i = entry.memory.length - 2; i >= 0; i -= 2) {
+      this.memory.restoreValueAt(entry.memory[i], previousMemoryValue(entry.memory[i + 1]));
+    }
+    for (let i = 0; i < entry.registers.length; i += 2) {
+      this.restoreRegister(entry.registers[i], entry.registers[i + 1]);
+    }
+    this.register.setProgramCounter(entry.programCounter);
+    this.replayInputs.unshift(...entry.inputs);
+    this.steps = Math.max(this.steps - 1, 0);
+    return true;
+  }
+
+  // 少なくとも1命令巻き戻し、breakpointsのいずれかの番地に着くまで巻き戻す
+  reverseContinue(breakpoints: Set<MemoryAddress>): boolean {
+    if (!this.stepBack()) {
+      return false;
+    }
+    while (!breakpoints.has(this.register.getProgramCounter())) {
+      if (!this.stepBack()) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // addressに書き込んだ命令を実行する前まで巻き戻す
+  reverseUntilWritten(address: MemoryAddress): boolean {
+    while (this.history) {
+      const entry = this.history.last();
+      if (!entry) {
+        return false;
+      }
+      this.stepBack();
+      if (hasMemoryWrite(entry, address)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // OSへ復帰するか、limitsのいずれかの条件で打ち切られるまで実行する。
+  // 入出力を待つSVC以外の命令は同期的に続けて実行し、一定の命令数ごとに時間切れと中断を確かめる
+  execute(beginAddr: number, limits: ExecutionLimits = {}): Promise<ExecutionResult> {
+    this.reset(beginAddr);
+    return this.run(limits);
+  }
+
+  // 今のPC・SPと命令数のまま続きを実行する。maxStepsは続きの分を含めた命令数の上限になる
+  resume(limits: ExecutionLimits = {}): Promise<ExecutionResult> {
+    return this.run(limits);
+  }
+
+  saveState(): MachineState {
+    return { steps: this.steps, stackLimit: this.stackLimit, inputs: [...this.replayInputs] };
+  }
+
+  // saveStateで保存した状態に戻す。MemoryとRegisterは呼び出し側で戻す
+  restoreState(state: MachineState) {
+    if (this.history) {
+      this.history.clear();
+    }
+    this.steps = state.steps;
+    this.setStackLimit(state.stackLimit);
+    this.replayInputs = [...state.inputs];
+  }
+
+  private async run(limits: ExecutionLimits): Promise<ExecutionResult> {
+    const {
+      maxSteps = Infinity, timeout = Infinity, signal = null, detectLoop = false
+    } = limits;
+    const deadline = Date.now() + timeout;
+    const stop = timeout !== Infinity || signal ? waitForStop(timeout, signal) : null;
+    this.loopDetector = detectLoop ? new LoopDetector(this.memory, this.register) : null;
+    this.updateWriteListener();
+    try {
+      while (true) {
+        if (signal && signal.aborted) {
+          return this.stoppedWith('aborted');
+        }
+        if (timeout !== Infinity && Date.now() >= deadline) {
+          return this.stoppedWith('timeout');
+        }
+        const result = this.runUntilSVC(Math.min(maxSteps, this.steps + LIMIT_CHECK_INTERVAL));
+        if (result === 'halt') {
+          this.notifyHalted();
+          return this.stoppedWith('halted');
+        }
+        if (result === 'loop') {
+          return this.stoppedWith('infinite-loop');
+        }
+        if (result === 'limit') {
+          if (this.steps >= maxSteps) {
+            return this.stoppedWith('step-limit');
+          }
+          if (signal) {
+            // 中断を受け取れるように、同期的な実行の合間にイベントループへ制御を戻す
+            await new Promise(resolve => setImmediate(resolve));
+          }
+        } else {
+          await this.executeSVC(stop ? stop.stopped : null);
+          if (this.loopDetector) {
+            // 入出力をはさんだ前後は同じ状態とみなさない
+            this.loopDetector.reset();
+          }
+        }
+      }
+    } catch (e) {
+      if (e instanceof ExecutionStopped) {
+        return this.stoppedWith(e.reason);
+      }
+      if (e instanceof RuntimeError) {
+        return { reason: 'runtime-error', programCounter: e.address, steps: this.steps, error: e };
+      }
+      throw e;
+    } finally {
+      if (stop) {
+        stop.cancel();
       }
+      this.loopDetector = null;
+      this.updateWriteListener();
     }
   }
 
   executeInteractive(beginAddr: number): { executeNext(): Promise<boolean> } {
     const that = this;
+    this.reset(beginAddr);
+    return {
+      async executeNext(): Promise<boolean> {
+        const result = that.executeSync();
+        if (result === 'halt') {
+          that.notifyHalted();
+          return false;
+        }
+        if (result === 'svc') {
+          await that.executeSVC();
+        }
+        return true;
+      }
+    }
+  }
+
+  // resetしてから実行し終えた命令の数
+  stepCount(): number {
+    return this.steps;
+  }
+
+  private reset(beginAddr: number) {
+    if (this.history) {
+      this.history.clear();
+    }
+    this.replayInputs = [];
+    this.steps = 0;
+    // プログラムが置かれた領域(DSで確保した領域を含む)の直後までをスタックとして使えるようにする
+    this.setStackLimit(this.memory.allocatedEndAddress());
+    this.register.setStackPointer(INITIAL_STACK_POINTER);
     this.register.setProgramCounter(beginAddr);
+  }
+
+  private setStackLimit(stackLimit: MemoryAddress) {
+    this.stackLimit = stackLimit;
+    this.instructions.forEach((instruction) => {
+      if (instruction instanceof StackInstruction) {
+        instruction.setStackLimit(stackLimit);
+      }
+    });
+  }
+
+  private stoppedWith(reason: StopReason): ExecutionResult {
     return {
-      executeNext(): Promise<boolean> {
-        return that.executeInstruction();
+      reason, programCounter: this.register.getProgramCounter(), steps: this.steps, error: null
+    };
+  }
+
+  private runUntilSVC(maxSteps: number): StepResult | 'limit' | 'loop' {
+    while (this.steps < maxSteps) {
+      if (this.loopDetector && this.loopDetector.check()) {
+        return 'loop';
+      }
+      const result = this.executeSync();
+      if (result !== 'next') {
+        return result;
       }
     }
+    // OSへの復帰は命令数に数えないので、上限ちょうどで終わる場合は正常終了とする
+    return this.isReturningToOS() ? 'halt' : 'limit';
   }
 
-  private instructionNumber(): number {
-    const currentAddress = this.register.getProgramCounter();
-    return (this.memory.getValueAt(currentAddress) & 0xFF00) >> 8;
+  private isReturningToOS(): boolean {
+    const instructionWord = this.memory.peekValueAt(this.register.getProgramCounter());
+    return instructionWord !== undefined && instructionWord >> 8 === MACHINE_INSTRUCTION_NUMBER.RET[1]
+      && this.register.getStackPointer() === INITIAL_STACK_POINTER;
   }
 
-  private async executeInstruction(): Promise<boolean> {
-    if (this.instructionNumber() === MACHINE_INSTRUCTION_NUMBER.RET[1]) {
-      // TODO: SPの実装のときにここも直す
-      return false;
+  // 書き込まれている番地のデコード結果は、値が変わるまで使い回す
+  private decodeAt(address: MemoryAddress): DecodedInstruction {
+    const cached = this.decoded[address];
+    if (cached) {
+      return cached;
     }
-    const instructionImpl = Machine.MACHINE_INSTRUCTION_IMPLIMENTATION[this.instructionNumber()];
-    if (!instructionImpl) {
-      throw new Error(`実装が未定義 ${this.instructionNumber()} at ${this.register.getProgramCounter()}`);
+    const word = this.memory.getValueAt(address);
+    const instructionNumber = word >> 8;
+    const decoded: DecodedInstruction = {
+      word,
+      instructionNumber,
+      instructionImpl: this.instructions[instructionNumber],
+      gR1: (word & 0xF0) >> 4,
+      gR2OrIR: word & 0xF,
+      addr: null
+    };
+    if (this.memory.isInitialized(address)) {
+      this.decoded[address] = decoded;
+    }
+    return decoded;
+  }
+
+  // SVC以外の1命令を実行する。SVCなら実行せずに'svc'を返す
+  private executeSync(): StepResult {
+    try {
+      const decoded = this.decodeAt(this.register.getProgramCounter());
+      const { instructionNumber, instructionImpl } = decoded;
+      if (instructionNumber === MACHINE_INSTRUCTION_NUMBER.RET[1]
+        && this.register.getStackPointer() === INITIAL_STACK_POINTER) {
+        // OSへの復帰
+        return 'halt';
+      }
+      if (this.events.hasListeners('instruction-fetched')) {
+        this.events.emit('instruction-fetched', { address: this.register.getProgramCounter(), word: decoded.word });
+      }
+      if (!instructionImpl) {
+        throw new RuntimeError(`実装が未定義 ${instructionNumber}`, this.register.getProgramCounter());
+      }
+      if (instructionImpl instanceof SVC2) {
+        return 'svc';
+      }
+      instructionImpl.load(decoded);
+      if (!this.history && !this.tracer && !this.profiler) {
+        this.advance(instructionImpl.evaluate());
+        return 'next';
+      }
+      const address = this.register.getProgramCounter();
+      const registers = this.history || this.tracer ? this.beginRecording() : null;
+      let step: number;
+      try {
+        step = instructionImpl.evaluate();
+        this.advance(step);
+      } finally {
+        if (registers) {
+          this.endRecording(registers);
+        }
+      }
+      if (this.profiler) {
+        this.profiler.record(address, instructionNumber, step);
+      }
+      return 'next';
+    } catch (e) {
+      throw this.failed(e);
     }
-    instructionImpl.setup(this.memory, this.register);
-    if (instructionImpl instanceof SVC2) {
+  }
+
+  // stoppedが先に解決すれば、入力を待つのをやめてExecutionStoppedを投げる
+  private async executeSVC(stopped: Promise<StopReason> | null = null): Promise<void> {
+    try {
+      const decoded = this.decodeAt(this.register.getProgramCounter());
+      const instructionImpl = decoded.instructionImpl as SVC2;
+      instructionImpl.load(decoded);
+      let io = this.history || this.replayInputs.length > 0 ? this.historyIO : this.io;
+      if (this.events.hasListeners('io-requested')) {
+        io = this.notifyingIO(io);
+      }
+      if (stopped) {
+        const base = io;
+        io = new IO(() => Promise.race([
+          base.in(),
+          stopped.then((reason): never => { throw new ExecutionStopped(reason); })
+        ]), value => base.out(value));
+      }
       // NOTICE: SVCのエミュレータのため特別対応
-      instructionImpl.setIO(this.io);
+      instructionImpl.setIO(io);
+      const address = this.register.getProgramCounter();
+      const registers = this.history || this.tracer ? this.beginRecording() : null;
+      let step: number;
+      try {
+        step = await instructionImpl.evaluateIO();
+        this.advance(step);
+      } finally {
+        if (registers) {
+          this.endRecording(registers);
+        }
+      }
+      if (this.profiler) {
+        this.profiler.record(address, decoded.instructionNumber, step);
+      }
+    } catch (e) {
+      throw this.failed(e);
     }
-    const step = await instructionImpl.evaluate();
-    if (step === 0) {
-      return true;
+  }
+
+  private notifyingIO(io: IO): IO {
+    const address = this.register.getProgramCounter();
+    return new IO(() => {
+      this.events.emit('io-requested', { kind: 'in', address, value: null });
+      return io.in();
+    }, (value) => {
+      this.events.emit('io-requested', { kind: 'out', address, value });
+      return io.out(value);
+    });
+  }
+
+  private notifyHalted() {
+    if (this.profiler) {
+      this.profiler.recordReturnToOS(this.register.getProgramCounter());
     }
-    this.register.setProgramCounter(this.register.getProgramCounter() + step);
-    return true;
+    if (this.events.hasListeners('halted')) {
+      this.events.emit('halted', { programCounter: this.register.getProgramCounter(), steps: this.steps });
+    }
+  }
+
+  // 時間切れや中断で止めた場合を除き、errorを通知してから投げ直す
+  private failed(e: Error): Error {
+    const error = this.toRuntimeError(e);
+    if (!(error instanceof ExecutionStopped) && this.events.hasListeners('error')) {
+      this.events.emit('error', { error });
+    }
+    return error;
+  }
+
+  private advance(step: number) {
+    if (step !== 0) {
+      this.register.setProgramCounter(toWord(this.register.getProgramCounter() + step));
+    }
+    this.steps += 1;
+  }
+
+  private toRuntimeError(e: Error): Error {
+    return e instanceof MemoryAccessError || e instanceof InputError ? new RuntimeError(e.message, this.register.getProgramCounter()) : e;
+  }
+
+  private beginRecording(): number[] {
+    const registers = this.registerSlots();
+    this.recording = { programCounter: this.register.getProgramCounter(), registers: [], memory: [], inputs: [] };
+    if (this.tracer) {
+      this.tracer.beforeInstruction(this.memory, this.register);
+    }
+    return registers;
+  }
+
+  // 実行時エラーで止まった命令も巻き戻せるように記録しておく
+  private endRecording(registers: number[]) {
+    if (this.recording) {
+      this.recording.registers = this.changedRegisterSlots(registers);
+      if (this.history) {
+        this.history.push(this.recording);
+      }
+      if (this.tracer) {
+        this.tracer.afterInstruction(this.recording, this.memory, this.register);
+      }
+    }
+    this.recording = null;
+  }
+
+  // 履歴もトレースも取らず、無限ループも調べない間はメモリへの書き込みを監視しない
+  private updateWriteListener() {
+    if (!this.history && !this.tracer && !this.loopDetector) {
+      this.memory.setWriteListener(null);
+      return;
+    }
+    this.memory.setWriteListener((address, previous, value) => {
+      if (this.recording) {
+        this.recording.memory.push(address, previous === undefined ? -1 : previous);
+      }
+      if (this.loopDetector) {
+        this.loopDetector.notifyWrite(address, previous, value);
+      }
+    });
+  }
+
+  private registerSlots(): number[] {
+    const flags = this.register.getOverflowFlag() | (this.register.getSignFlag() << 1) | (this.register.getZeroFlag() << 2);
+    return [0, 1, 2, 3, 4, 5, 6, 7].map(index => this.register.getGRAt(index))
+      .concat([this.register.getStackPointer(), flags]);
+  }
+
+  private changedRegisterSlots(before: number[]): number[] {
+    const after = this.registerSlots();
+    const result: number[] = [];
+    before.forEach((value, slot) => {
+      if (value !== after[slot]) {
+        result.push(slot, value);
+      }
+    });
+    return result;
+  }
+
+  private restoreRegister(slot: number, value: number) {
+    if (slot === REGISTER_SLOT_STACK_POINTER) {
+      this.register.setStackPointer(value);
+    } else if (slot === REGISTER_SLOT_FLAGS) {
+      this.register.setFlags((value & 1) as FlagValue, ((value >> 1) & 1) as FlagValue, ((value >> 2) & 1) as FlagValue);
+    } else {
+      this.register.setGRAt(slot, value);
+    }
+  }
+
+  private async readInputWithHistory(): Promise<string | null> {
+    const value = this.replayInputs.length > 0 ? this.replayInputs.shift() as string | null : await this.io.in();
+    if (this.recording) {
+      this.recording.inputs.push(value);
+    }
+    return value;
   }
 
-  static readonly MACHINE_INSTRUCTION_IMPLIMENTATION: { [key: number]: MachineInstruction } = Object.freeze({
-    [MACHINE_INSTRUCTION_NUMBER.AND[1]]: new AND1(),
-    [MACHINE_INSTRUCTION_NUMBER.AND[2]]: new AND2(),
-    [MACHINE_INSTRUCTION_NUMBER.LD[1]]: new LD1(),
-    [MACHINE_INSTRUCTION_NUMBER.LD[2]]: new LD2(),
-    [MACHINE_INSTRUCTION_NUMBER.LAD[2]]: new LAD2(),
-    [MACHINE_INSTRUCTION_NUMBER.ST[2]]: new ST2(),
-    [MACHINE_INSTRUCTION_NUMBER.SUBA[1]]: new SUBA1(),
-    [MACHINE_INSTRUCTION_NUMBER.ADDA[2]]: new ADDA2(),
-    [MACHINE_INSTRUCTION_NUMBER.CPA[1]]: new CPA1(),
-    [MACHINE_INSTRUCTION_NUMBER.CPA[2]]: new CPA2(),
-    [MACHINE_INSTRUCTION_NUMBER.JUMP[2]]: new JUMP2(),
-    [MACHINE_INSTRUCTION_NUMBER.JZE[2]]: new JZE2(),
-    [MACHINE_INSTRUCTION_NUMBER.JMI[2]]: new JMI2(),
-    [MACHINE_INSTRUCTION_NUMBER.JPL[2]]: new JPL2(),
-    [MACHINE_INSTRUCTION_NUMBER.SVC[2]]: new SVC2(),
+  // 命令の番号ごとの実装。Machineごとにインスタンスを作る
+  static readonly MACHINE_INSTRUCTION_CLASSES: { [key: number]: new () => MachineInstruction } = Object.freeze({
+    [MACHINE_INSTRUCTION_NUMBER.NOP[1]]: NOP1,
+    [MACHINE_INSTRUCTION_NUMBER.LD[1]]: LD1,
+    [MACHINE_INSTRUCTION_NUMBER.LD[2]]: LD2,
+    [MACHINE_INSTRUCTION_NUMBER.ST[2]]: ST2,
+    [MACHINE_INSTRUCTION_NUMBER.LAD[2]]: LAD2,
+    [MACHINE_INSTRUCTION_NUMBER.ADDA[1]]: ADDA1,
+    [MACHINE_INSTRUCTION_NUMBER.ADDA[2]]: ADDA2,
+    [MACHINE_INSTRUCTION_NUMBER.SUBA[1]]: SUBA1,
+    [MACHINE_INSTRUCTION_NUMBER.SUBA[2]]: SUBA2,
+    [MACHINE_INSTRUCTION_NUMBER.ADDL[1]]: ADDL1,
+    [MACHINE_INSTRUCTION_NUMBER.ADDL[2]]: ADDL2,
+    [MACHINE_INSTRUCTION_NUMBER.SUBL[1]]: SUBL1,
+    [MACHINE_INSTRUCTION_NUMBER.SUBL[2]]: SUBL2,
+    [MACHINE_INSTRUCTION_NUMBER.AND[1]]: AND1,
+    [MACHINE_INSTRUCTION_NUMBER.AND[2]]: AND2,
+    [MACHINE_INSTRUCTION_NUMBER.OR[1]]: OR1,
+    [MACHINE_INSTRUCTION_NUMBER.OR[2]]: OR2,
+    [MACHINE_INSTRUCTION_NUMBER.XOR[1]]: XOR1,
+    [MACHINE_INSTRUCTION_NUMBER.XOR[2]]: XOR2,
+    [MACHINE_INSTRUCTION_NUMBER.CPA[1]]: CPA1,
+    [MACHINE_INSTRUCTION_NUMBER.CPA[2]]: CPA2,
+    [MACHINE_INSTRUCTION_NUMBER.CPL[1]]: CPL1,
+    [MACHINE_INSTRUCTION_NUMBER.CPL[2]]: CPL2,
+    [MACHINE_INSTRUCTION_NUMBER.SLA[2]]: SLA2,
+    [MACHINE_INSTRUCTION_NUMBER.SRA[2]]: SRA2,
+    [MACHINE_INSTRUCTION_NUMBER.SLL[2]]: SLL2,
+    [MACHINE_INSTRUCTION_NUMBER.SRL[2]]: SRL2,
+    [MACHINE_INSTRUCTION_NUMBER.JMI[2]]: JMI2,
+    [MACHINE_INSTRUCTION_NUMBER.JNZ[2]]: JNZ2,
+    [MACHINE_INSTRUCTION_NUMBER.JZE[2]]: JZE2,
+    [MACHINE_INSTRUCTION_NUMBER.JUMP[2]]: JUMP2,
+    [MACHINE_INSTRUCTION_NUMBER.JPL[2]]: JPL2,
+    [MACHINE_INSTRUCTION_NUMBER.JOV[2]]: JOV2,
+    [MACHINE_INSTRUCTION_NUMBER.PUSH[2]]: PUSH2,
+    [MACHINE_INSTRUCTION_NUMBER.POP[1]]: POP1,
+    [MACHINE_INSTRUCTION_NUMBER.CALL[2]]: CALL2,
+    [MACHINE_INSTRUCTION_NUMBER.RET[1]]: RET1,
+    [MACHINE_INSTRUCTION_NUMBER.SVC[2]]: SVC2,
   });
 }
@@ -0,0 +1,39 @@
+import { GENERAL_REGISTER_NAMES, SourceLine } from "./utils";
+import { parseLine } from "./source_parser";
+import { AssembleError } from "./diagnostics";
+
+export const MACRO_INSTRUCTION_NAMES = Object.freeze(['IN', 'OUT', 'RPUSH', 'RPOP']);
+
+// SVCに渡す機能番号
+export const SVC_IN = 1;
+export const SVC_OUT = 2;
+
+function callSupervisor(functionNumber: number, bufferAddr: string, lengthAddr: string): string[] {
+  if (!bufferAddr || !lengthAddr) {
+    throw new AssembleError('invalid-operand', 'オペランドが不足している');
+  }
+  return [
+    'PUSH 0,GR1',
+    'PUSH 0,GR2',
+    `LAD GR1,${bufferAddr}`,
+    `LAD GR2,${lengthAddr}`,
+    `SVC ${functionNumber}`,
+    'POP GR2',
+    'POP GR1',
+  ];
+}
+
+// マクロ命令をCASL IIの仕様どおりの機械語命令の並びに展開する
+export function expandMacroInstruction(instruction: string, operands: string[]): SourceLine[] | null {
+  let lines: string[] | null = null;
+  if (instruction === 'IN') {
+    lines = callSupervisor(SVC_IN, operands[0], operands[1]);
+  } else if (instruction === 'OUT') {
+    lines = callSupervisor(SVC_OUT, operands[0], operands[1]);
+  } else if (instruction === 'RPUSH') {
+    lines = GENERAL_REGISTER_NAMES.slice(1).map(name => `PUSH 0,${name}`);
+  } else if (instruction === 'RPOP') {
+    lines = GENERAL_REGISTER_NAMES.slice(1).reverse().map(name => `POP ${name}`);
+  }
+  return lines && lines.map(line => parseLine(`\t${line}`));
+}
@@ -1,26 +1,206 @@
 import { WordValue, toWordHex, MemoryAddress, MemoryDump } from "./utils";
+import { EventEmitter } from "./events";
+
+export const MEMORY_SIZE = 0x10000;
+
+// 書き込みの直前に、書き込む番地と元の値(未書き込みならundefined)と書き込む値を受け取る
+export type MemoryWriteListener = (address: MemoryAddress, previous: WordValue | undefined, value: WordValue) => void;
+
+// 書き込み、復元、まとめての読み込みで値が変わりうる番地の区間を受け取る
+export type MemoryChangeListener = (address: MemoryAddress, size: number) => void;
+
+// 命令やsetValueAtによる書き込みと、巻き戻しによる復元。未書き込みの値はundefinedになる
+export interface MemoryEvents {
+  'memory-written': { address: MemoryAddress, previous: WordValue | undefined, value: WordValue | undefined };
+}
+
+// 厳密モードで未初期化の語を読んだ、または保護した番地に書き込んだ場合のエラー。
+// 実行中の命令の番地はMachineがRuntimeErrorに付け直す
+export class MemoryAccessError extends Error {
+  constructor(message: string, readonly address: MemoryAddress) {
+    super(`${message} #${toWordHex(address)}`);
+    this.name = 'MemoryAccessError';
+  }
+}
+
+// 番地は16ビットで折り返す。整数でない番地は誤りとする
+function normalizeAddress(address: MemoryAddress): MemoryAddress {
+  if (!Number.isInteger(address)) {
+    throw new Error(`不正な番地 ${address}`);
+  }
+  return address & 0xFFFF;
+}
 
 export class Memory {
-  private values: { [key: number]: WordValue } = {};
+  readonly events = new EventEmitter<MemoryEvents>();
+  private values = new Uint16Array(MEMORY_SIZE);
+  // 1度でも書き込んだ番地は1
+  private initialized = new Uint8Array(MEMORY_SIZE);
+  // 書き込みを禁止する番地は1
+  private protectedFlags: Uint8Array | null = null;
+  private strict = false;
+  // プログラムが確保した領域(DSで確保しただけの領域を含む)の終わりの番地
+  private allocatedEnd: MemoryAddress = 0;
+  private writeListener: MemoryWriteListener | null = null;
+  private changeListeners: MemoryChangeListener[] = [];
+
+  // address から size 語をプログラムの領域として確保する。書き込みはしない
+  allocate(address: MemoryAddress, size: number) {
+    this.allocatedEnd = Math.min(Math.max(this.allocatedEnd, address + size), MEMORY_SIZE);
+  }
+
+  // allocateで確保した領域のうち、最も後ろのものの次の番地。
+  // スタックなど実行中に書き込んだ語は数えないので、同じMemoryで何度実行しても変わらない
+  allocatedEndAddress(): MemoryAddress {
+    return this.allocatedEnd;
+  }
+
+  // 厳密モードでは未初期化の語を読むとMemoryAccessErrorになる。そうでなければ0を読む
+  setStrictMode(strict: boolean) {
+    this.strict = strict;
+  }
+
+  isStrictMode(): boolean {
+    return this.strict;
+  }
 
   getValueAt(address: MemoryAddress): WordValue {
-    return this.values[address];
+    const index = normalizeAddress(address);
+    if (this.strict && this.initialized[index] === 0) {
+      throw new MemoryAccessError('未初期化の番地の読み出し', index);
+    }
+    return this.values[index];
+  }
+
+  // 厳密モードに関係なく読む。未初期化ならundefinedを返す
+  peekValueAt(address: MemoryAddress): WordValue | undefined {
+    const index = normalizeAddress(address);
+    return this.initialized[index] === 0 ? undefined : this.values[index];
+  }
+
+  isInitialized(address: MemoryAddress): boolean {
+    return this.initialized[normalizeAddress(address)] === 1;
   }
 
   setValueAt(address: MemoryAddress, value: WordValue) {
-    this.values[address] = value & 0xFFFF;
+    const index = normalizeAddress(address);
+    if (this.protectedFlags && this.protectedFlags[index] === 1) {
+      throw new MemoryAccessError('書き込み禁止の番地への書き込み', index);
+    }
+    if (this.writeListener) {
+      this.writeListener(index, this.peekValueAt(index), value & 0xFFFF);
+    }
+    const previous = this.events.hasListeners('memory-written') ? this.peekValueAt(index) : undefined;
+    this.values[index] = value;
+    this.initialized[index] = 1;
+    this.notifyChange(index, 1);
+    if (this.events.hasListeners('memory-written')) {
+      this.events.emit('memory-written', { address: index, previous, value: this.values[index] });
+    }
   }
 
-  toString(): string {
-    let result = '';
-    for (let key of Object.keys(this.values)) {
-      const value = this.values[Number(key)];
-      result += `${toWordHex(Number(key))}: ${toWordHex(Number(value))}\n`
+  setWriteListener(listener: MemoryWriteListener | null) {
+    this.writeListener = listener;
+  }
+
+  // setWriteListenerと違い、巻き戻しやloadRangeを含むすべての変更を知らせる。Machineが命令のデコード結果を捨てるのに使う
+  addChangeListener(listener: MemoryChangeListener) {
+    this.changeListeners.push(listener);
+  }
+
+  // 実行を巻き戻す際に使う。書き込みのリスナーへの通知や保護の確認はしない
+  restoreValueAt(address: MemoryAddress, value: WordValue | undefined) {
+    const index = normalizeAddress(address);
+    const previous = this.peekValueAt(index);
+    this.values[index] = value === undefined ? 0 : value;
+    this.initialized[index] = value === undefined ? 0 : 1;
+    this.notifyChange(index, 1);
+    if (this.events.hasListeners('memory-written')) {
+      this.events.emit('memory-written', { address: index, previous, value });
+    }
+  }
+
+  // address から size 語の書き込みを禁止する
+  protect(address: MemoryAddress, size: number) {
+    if (!this.protectedFlags) {
+      this.protectedFlags = new Uint8Array(MEMORY_SIZE);
+    }
+    for (let i = 0; i < size; i++) {
+      this.protectedFlags[(address + i) & 0xFFFF] = 1;
+    }
+  }
+
+  unprotectAll() {
+    this.protectedFlags = null;
+  }
+
+  // 書き込みを禁止している番地を、連続した区間ごとに番地の順に返す
+  protectedRanges(): { address: MemoryAddress, size: number }[] {
+    const result: { address: MemoryAddress, size: number }[] = [];
+    if (!this.protectedFlags) {
+      return result;
+    }
+    for (let address = 0; address < MEMORY_SIZE; address++) {
+      if (this.protectedFlags[address] === 1) {
+        const last = result[result.length - 1];
+        if (last && last.address + last.size === address) {
+          last.size += 1;
+        } else {
+          result.push({ address, size: 1 });
+        }
+      }
+    }
+    return result;
+  }
+
+  // address から size 語をまとめて読む。未初期化の語は0になる
+  dumpRange(address: MemoryAddress, size: number): Uint16Array {
+    const begin = normalizeAddress(address);
+    if (begin + size <= MEMORY_SIZE) {
+      return this.values.slice(begin, begin + size);
+    }
+    const result = new Uint16Array(size);
+    for (let i = 0; i < size; i++) {
+      result[i] = this.values[(begin + i) & 0xFFFF];
+    }
+    return result;
+  }
+
+  // address から words をまとめて書き込む。setWriteListenerのリスナーへの通知や保護の確認はしない
+  loadRange(address: MemoryAddress, words: ArrayLike<WordValue>) {
+    const begin = normalizeAddress(address);
+    this.notifyChange(begin, words.length);
+    if (begin + words.length <= MEMORY_SIZE) {
+      this.values.set(words, begin);
+      this.initialized.fill(1, begin, begin + words.length);
+      return;
+    }
+    for (let i = 0; i < words.length; i++) {
+      this.values[(begin + i) & 0xFFFF] = words[i];
+      this.initialized[(begin + i) & 0xFFFF] = 1;
     }
-    return result.trim();
   }
 
+  private notifyChange(address: MemoryAddress, size: number) {
+    for (let i = 0; i < this.changeListeners.length; i++) {
+      this.changeListeners[i](address, size);
+    }
+  }
+
+  toString(): string {
+    return this.dump()
+      .map(([address, value]) => `${toWordHex(address)}: ${toWordHex(value)}`)
+      .join("\n");
+  }
+
+  // 書き込まれている語を番地の順に返す
   dump(): MemoryDump {
-    return Object.keys(this.values).map(key => [Number(key), this.values[Number(key)]]);
+    const result: MemoryDump = [];
+    for (let address = 0; address < MEMORY_SIZE; address++) {
+      if (this.initialized[address] === 1) {
+        result.push([address, this.values[address]]);
+      }
+    }
+    return result;
   }
 }
@@ -0,0 +1,94 @@
+import { Readable, Writable } from "stream";
+
+// Debug Adapter Protocol と Language Server Protocol で共通の、Content-Lengthのヘッダーを付けたJSONのメッセージ
+export type ProtocolMessage = { [key: string]: unknown };
+
+const HEADER_DELIMITER = "\r\n\r\n";
+
+export function isProtocolMessage(value: unknown): value is ProtocolMessage {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 受け取ったメッセージの値を、型を確かめて取り出す。オブジェクトや配列でなければ空のものを返す
+export function objectField(message: ProtocolMessage, key: string): ProtocolMessage {
+  const value = message[key];
+  return isProtocolMessage(value) ? value : {};
+}
+
+export function arrayField(message: ProtocolMessage, key: string): unknown[] {
+  const value = message[key];
+  return Array.isArray(value) ? value : [];
+}
+
+export function stringField(message: ProtocolMessage, key: string): string | undefined {
+  const value = message[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function numberField(message: ProtocolMessage, key: string): number | undefined {
+  const value = message[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function booleanField(message: ProtocolMessage, key: string): boolean | undefined {
+  const value = message[key];
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+export function encodeMessage(message: ProtocolMessage): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}${HEADER_DELIMITER}`, 'ascii'), body]);
+}
+
+// 分割されて届くバイト列からメッセージを取り出す。Content-Lengthはバイト数で数える
+export class MessageReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer | string): ProtocolMessage[] {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk]);
+    const messages: ProtocolMessage[] = [];
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd < 0) {
+        return messages;
+      }
+      const header = this.buffer.slice(0, headerEnd).toString('ascii');
+      const match = header.match(/^Content-Length: *([0-9]+)$/im);
+      if (!match) {
+        throw new Error(`Content-Lengthがない ${header}`);
+      }
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) {
+        return messages;
+      }
+      const message: unknown = JSON.parse(this.buffer.slice(bodyStart, bodyEnd).toString('utf-8'));
+      this.buffer = this.buffer.slice(bodyEnd);
+      if (!isProtocolMessage(message)) {
+        throw new Error('メッセージがオブジェクトではない');
+      }
+      messages.push(message);
+    }
+  }
+}
+
+// inputから読んだメッセージを順にhandleに渡す。handleの終わりは待たない。inputが終われば解決する
+export function serveMessages(input: Readable, handle: (message: ProtocolMessage) => void): Promise<void> {
+  const reader = new MessageReader();
+  return new Promise((resolve, reject) => {
+    input.on('data', (chunk: Buffer | string) => {
+      try {
+        reader.push(chunk).forEach(handle);
+      } catch (e) {
+        reject(e);
+      }
+    });
+    input.on('end', () => resolve());
+    input.on('close', () => resolve());
+    input.on('error', reject);
+  });
+}
+
+export function writeMessage(output: Writable, message: ProtocolMessage) {
+  output.write(encodeMessage(message));
+}
@@ -0,0 +1,148 @@
+import { MemoryAddress, WordValue, ParsedSource, INITIAL_STACK_POINTER } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { Compiler } from "./compiler";
+import { toWord } from "./word";
+
+export const OBJECT_FILE_FORMAT = 'comet2-object';
+export const OBJECT_FILE_VERSION = 1;
+
+export interface ObjectSegment {
+  address: MemoryAddress;
+  words: WordValue[];
+}
+
+export interface ObjectSymbol {
+  name: string;
+  moduleName: string;
+  address: MemoryAddress;
+}
+
+export interface ObjectCodeRange {
+  address: MemoryAddress;
+  size: number;
+}
+
+export interface ObjectSourceMapEntry {
+  address: MemoryAddress;
+  fileName: string | null;
+  line: number;
+}
+
+/**
+ * アセンブル済みのプログラムをJSONで保存する形式
+ *
+ * - entry: 実行開始番地
+ * - segments: 連続した番地ごとの語の並び
+ * - symbols: STARTのラベル(moduleNameは空文字列)とモジュール内のラベル
+ * - relocations: 番地を値として持つ語の番地。別の番地に読み込む際はこの語にずらした分を加える
+ * - sourceMap: 命令・定数の先頭番地とソースの位置の対応
+ * - code: 機械語命令を置いた番地の区間。古いオブジェクトファイルにはない
+ * - end: DSで確保した領域も含めたプログラムの終わりの次の番地。古いオブジェクトファイルにはない
+ */
+export interface ObjectFile {
+  format: typeof OBJECT_FILE_FORMAT;
+  version: number;
+  entry: MemoryAddress;
+  segments: ObjectSegment[];
+  symbols: ObjectSymbol[];
+  relocations: MemoryAddress[];
+  sourceMap: ObjectSourceMapEntry[];
+  code?: ObjectCodeRange[];
+  end?: MemoryAddress;
+}
+
+// 書き込まれている番地を連続した区間ごとにまとめる
+export function memorySegmentsOf(memory: Memory): ObjectSegment[] {
+  const segments: ObjectSegment[] = [];
+  memory.dump()
+    .sort(([a], [b]) => a - b)
+    .forEach(([address, value]) => {
+      const last = segments[segments.length - 1];
+      if (last && last.address + last.words.length === address) {
+        last.words.push(value);
+        return;
+      }
+      segments.push({ address, words: [value] });
+    });
+  return segments;
+}
+
+// 隣り合う区間をまとめる
+function mergeCodeRanges(ranges: ObjectCodeRange[]): ObjectCodeRange[] {
+  const result: ObjectCodeRange[] = [];
+  [...ranges].sort((a, b) => a.address - b.address).forEach(({ address, size }) => {
+    const last = result[result.length - 1];
+    if (last && last.address + last.size === address) {
+      last.size += size;
+      return;
+    }
+    result.push({ address, size });
+  });
+  return result;
+}
+
+// アセンブルが終わった直後のMemoryの内容からオブジェクトファイルを作る
+export function createObjectFile(compiler: Compiler, memory: Memory, source: ParsedSource): ObjectFile {
+  const addrToSourceIndexMap = compiler.addrToSourceIndexMap();
+  return {
+    format: OBJECT_FILE_FORMAT,
+    version: OBJECT_FILE_VERSION,
+    entry: compiler.entryAddr(),
+    segments: memorySegmentsOf(memory),
+    symbols: compiler.symbols().map(({ name, moduleName, address }) => ({ name, moduleName, address })),
+    relocations: compiler.relocations(),
+    sourceMap: Object.keys(addrToSourceIndexMap).map((key) => {
+      const line = source[addrToSourceIndexMap[Number(key)]];
+      return { address: Number(key), fileName: line.fileName, line: line.lineNumber };
+    }),
+    code: mergeCodeRanges(compiler.codeLocations()),
+    end: compiler.endAddr()
+  };
+}
+
+export function serializeObjectFile(object: ObjectFile): string {
+  return JSON.stringify(object);
+}
+
+export function parseObjectFile(text: string): ObjectFile {
+  let object: ObjectFile;
+  try {
+    object = JSON.parse(text);
+  } catch (e) {
+    throw new Error('不正なオブジェクトファイル');
+  }
+  if (!object || object.format !== OBJECT_FILE_FORMAT || !Array.isArray(object.segments)) {
+    throw new Error('不正なオブジェクトファイル');
+  }
+  if (object.version !== OBJECT_FILE_VERSION) {
+    throw new Error(`未対応のオブジェクトファイルのバージョン ${object.version}`);
+  }
+  return object;
+}
+
+// オブジェクトファイルをoffsetだけずらしてMemoryに読み込み、実行開始番地を返す
+export function loadObjectFile(object: ObjectFile, memory: Memory, register: Register, offset = 0): MemoryAddress {
+  const relocations = new Set(object.relocations);
+  object.segments.forEach(({ address, words }) => {
+    words.forEach((word, index) => {
+      const value = relocations.has(address + index) ? word + offset : word;
+      memory.setValueAt(toWord(address + index + offset), value);
+    });
+  });
+  if (object.end !== undefined) {
+    memory.allocate(offset, object.end);
+  } else {
+    // endのない古いオブジェクトファイルは、書き込む語のある区間だけをプログラムの領域とする
+    object.segments.forEach(({ address, words }) => memory.allocate(address + offset, words.length));
+  }
+  const entryAddr = toWord(object.entry + offset);
+  register.setProgramCounter(entryAddr);
+  register.setStackPointer(INITIAL_STACK_POINTER);
+  return entryAddr;
+}
+
+// 機械語命令の領域への書き込みを禁止し、プログラム自身を書き換える誤りを検出できるようにする
+export function protectCode(object: ObjectFile, memory: Memory, offset = 0) {
+  (object.code || []).forEach(({ address, size }) => memory.protect(toWord(address + offset), size));
+}
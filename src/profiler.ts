@@ -0,0 +1,329 @@
+import { MACHINE_INSTRUCTION_NUMBER, MemoryAddress, ParsedSource, toWordHex } from "./utils";
+import { InstructionKind, instructionKindOf } from "./tracer";
+import { MEMORY_SIZE } from "./memory";
+
+// 命令の種類ごとの1命令あたりのサイクル数。実機の値ではなく、命令の重さを比べるための目安
+export const CYCLES_BY_KIND: { [key in InstructionKind]: number } = Object.freeze({
+  load: 2,
+  arithmetic: 2,
+  logical: 2,
+  compare: 2,
+  shift: 3,
+  jump: 2,
+  stack: 3,
+  call: 4,
+  svc: 10,
+  other: 1,
+});
+
+// 分岐した回数と分岐しなかった回数を数える命令
+export const CONDITIONAL_JUMPS = Object.freeze(['JMI', 'JNZ', 'JZE', 'JPL', 'JOV']);
+
+interface InstructionInfo {
+  mnemonic: string;
+  kind: InstructionKind;
+  cycles: number;
+  conditional: boolean;
+}
+
+const INSTRUCTION_INFO: (InstructionInfo | undefined)[] = (() => {
+  const result: (InstructionInfo | undefined)[] = new Array(0x100).fill(undefined);
+  Object.keys(MACHINE_INSTRUCTION_NUMBER).forEach((mnemonic) => {
+    const forms = MACHINE_INSTRUCTION_NUMBER[mnemonic];
+    const kind = instructionKindOf(mnemonic);
+    Object.keys(forms).forEach((length) => {
+      result[forms[Number(length)]] = {
+        mnemonic, kind, cycles: CYCLES_BY_KIND[kind], conditional: CONDITIONAL_JUMPS.includes(mnemonic)
+      };
+    });
+  });
+  return result;
+})();
+
+export interface AddressProfile {
+  address: MemoryAddress;
+  steps: number;
+  cycles: number;
+}
+
+export interface InstructionProfile {
+  mnemonic: string;
+  kind: InstructionKind;
+  steps: number;
+  cycles: number;
+}
+
+export interface KindProfile {
+  kind: InstructionKind;
+  steps: number;
+  cycles: number;
+}
+
+export interface BranchProfile {
+  address: MemoryAddress;
+  mnemonic: string;
+  taken: number;
+  notTaken: number;
+}
+
+// Machine.setProfilerで渡すと、実行した命令を番地ごと・命令ごとに数える
+export class Profiler {
+  private addressSteps = new Float64Array(MEMORY_SIZE);
+  private addressCycles = new Float64Array(MEMORY_SIZE);
+  private branchTaken = new Float64Array(MEMORY_SIZE);
+  private branchNotTaken = new Float64Array(MEMORY_SIZE);
+  // 番地で最後に実行した分岐命令の番号。分岐命令を実行していなければ-1
+  private branchInstructions = new Int16Array(MEMORY_SIZE).fill(-1);
+  private instructionSteps = new Float64Array(0x100);
+  // OSへ復帰したRETの番地ごとの回数。命令数には数えない
+  private returns = new Map<MemoryAddress, number>();
+
+  // 実行し終えた命令ごとに呼ぶ。stepは命令が返したPCの進み幅で、分岐した場合は0になる
+  record(address: MemoryAddress, instructionNumber: number, step: number) {
+    const info = INSTRUCTION_INFO[instructionNumber];
+    if (!info) {
+      return;
+    }
+    this.addressSteps[address] += 1;
+    this.addressCycles[address] += info.cycles;
+    this.instructionSteps[instructionNumber] += 1;
+    if (info.conditional) {
+      this.branchInstructions[address] = instructionNumber;
+      if (step === 0) {
+        this.branchTaken[address] += 1;
+      } else {
+        this.branchNotTaken[address] += 1;
+      }
+    }
+  }
+
+  // OSへ復帰するRETで呼ぶ
+  recordReturnToOS(address: MemoryAddress) {
+    this.returns.set(address, (this.returns.get(address) || 0) + 1);
+  }
+
+  clear() {
+    this.addressSteps.fill(0);
+    this.addressCycles.fill(0);
+    this.branchTaken.fill(0);
+    this.branchNotTaken.fill(0);
+    this.branchInstructions.fill(-1);
+    this.instructionSteps.fill(0);
+    this.returns.clear();
+  }
+
+  steps(): number {
+    return this.instructionSteps.reduce((total, steps) => total + steps, 0);
+  }
+
+  cycles(): number {
+    return this.instructionProfiles().reduce((total, item) => total + item.cycles, 0);
+  }
+
+  // 実行した番地を番地の順に返す
+  addressProfiles(): AddressProfile[] {
+    const result: AddressProfile[] = [];
+    for (let address = 0; address < MEMORY_SIZE; address++) {
+      if (this.addressSteps[address] > 0) {
+        result.push({ address, steps: this.addressSteps[address], cycles: this.addressCycles[address] });
+      }
+    }
+    return result;
+  }
+
+  // OSへ復帰したRETも含めて、番地ごとに実行した回数を返す
+  addressHits(): Map<MemoryAddress, number> {
+    const hits = new Map(this.addressProfiles().map(({ address, steps }) => [address, steps] as [MemoryAddress, number]));
+    this.returns.forEach((count, address) => hits.set(address, (hits.get(address) || 0) + count));
+    return hits;
+  }
+
+  // 実行した命令を実行回数の多い順に返す
+  instructionProfiles(): InstructionProfile[] {
+    const counts = new Map<string, InstructionProfile>();
+    this.instructionSteps.forEach((steps, instructionNumber) => {
+      const info = INSTRUCTION_INFO[instructionNumber];
+      if (!info || steps === 0) {
+        return;
+      }
+      // 1語と2語の形式はまとめて数える
+      const item = counts.get(info.mnemonic) || { mnemonic: info.mnemonic, kind: info.kind, steps: 0, cycles: 0 };
+      item.steps += steps;
+      item.cycles += steps * info.cycles;
+      counts.set(info.mnemonic, item);
+    });
+    return [...counts.values()].sort((a, b) => b.steps - a.steps || a.mnemonic.localeCompare(b.mnemonic));
+  }
+
+  kindProfiles(): KindProfile[] {
+    const counts = new Map<InstructionKind, KindProfile>();
+    this.instructionProfiles().forEach(({ kind, steps, cycles }) => {
+      const item = counts.get(kind) || { kind, steps: 0, cycles: 0 };
+      item.steps += steps;
+      item.cycles += cycles;
+      counts.set(kind, item);
+    });
+    return [...counts.values()].sort((a, b) => b.cycles - a.cycles || a.kind.localeCompare(b.kind));
+  }
+
+  // 条件分岐命令を番地の順に返す
+  branchProfiles(): BranchProfile[] {
+    const result: BranchProfile[] = [];
+    for (let address = 0; address < MEMORY_SIZE; address++) {
+      const instructionNumber = this.branchInstructions[address];
+      if (instructionNumber >= 0) {
+        result.push({
+          address,
+          mnemonic: (INSTRUCTION_INFO[instructionNumber] as InstructionInfo).mnemonic,
+          taken: this.branchTaken[address],
+          notTaken: this.branchNotTaken[address]
+        });
+      }
+    }
+    return result;
+  }
+}
+
+export interface SourceLineProfile {
+  sourceIndex: number;
+  steps: number;
+  cycles: number;
+  // 条件分岐命令のある行だけ。マクロ命令などで1行に複数あれば合計する
+  branch: { taken: number, notTaken: number } | null;
+}
+
+export interface Profile {
+  steps: number;
+  cycles: number;
+  // 命令か定数のある行だけを行の順に並べる。実行されなかった行のstepsは0
+  lines: SourceLineProfile[];
+  // ソースの行に対応付けられなかった番地の命令数
+  unattributedSteps: number;
+  instructions: InstructionProfile[];
+  kinds: KindProfile[];
+  branches: BranchProfile[];
+}
+
+// 計測した番地ごとの回数を、Compiler.addrToSourceIndexMap でソースの行にまとめる。
+// codeRanges(Compiler.codeLocationsなど)を渡すと、実行されなかった行のうち命令のない行は含めない
+export function createProfile(
+  profiler: Profiler,
+  addrToSourceIndexMap: { [key: number]: number },
+  codeRanges: { address: MemoryAddress, size: number }[] | null = null
+): Profile {
+  const lines = new Map<number, SourceLineProfile>();
+  const lineOf = (sourceIndex: number) => {
+    const line = lines.get(sourceIndex) || { sourceIndex, steps: 0, cycles: 0, branch: null };
+    lines.set(sourceIndex, line);
+    return line;
+  };
+  const isCode = (address: MemoryAddress) => !codeRanges || codeRanges.some(range => range.address <= address && address < range.address + range.size);
+  Object.keys(addrToSourceIndexMap)
+    .filter(address => isCode(Number(address)))
+    .forEach(address => lineOf(addrToSourceIndexMap[Number(address)]));
+  let unattributedSteps = 0;
+  profiler.addressProfiles().forEach(({ address, steps, cycles }) => {
+    const sourceIndex = addrToSourceIndexMap[address];
+    if (sourceIndex === undefined) {
+      unattributedSteps += steps;
+      return;
+    }
+    const line = lineOf(sourceIndex);
+    line.steps += steps;
+    line.cycles += cycles;
+  });
+  const branches = profiler.branchProfiles();
+  branches.forEach(({ address, taken, notTaken }) => {
+    const sourceIndex = addrToSourceIndexMap[address];
+    if (sourceIndex !== undefined) {
+      const line = lineOf(sourceIndex);
+      line.branch = line.branch || { taken: 0, notTaken: 0 };
+      line.branch.taken += taken;
+      line.branch.notTaken += notTaken;
+    }
+  });
+  return {
+    steps: profiler.steps(),
+    cycles: profiler.cycles(),
+    lines: [...lines.values()].sort((a, b) => a.sourceIndex - b.sourceIndex),
+    unattributedSteps,
+    instructions: profiler.instructionProfiles(),
+    kinds: profiler.kindProfiles(),
+    branches
+  };
+}
+
+function positionOf(source: ParsedSource, sourceIndex: number): string {
+  const line = source[sourceIndex];
+  return line.fileName !== null ? `${line.fileName}:${line.lineNumber}` : `${line.lineNumber}`;
+}
+
+function percentOf(value: number, total: number): string {
+  return total > 0 ? (value / total * 100).toFixed(1) : '0.0';
+}
+
+function formatBranch(branch: { taken: number, notTaken: number }): string {
+  return `分岐 ${branch.taken}回 / 非分岐 ${branch.notTaken}回`;
+}
+
+// 命令数の多い行から最大limit行と、命令の種類・命令・条件分岐ごとの集計を並べる
+export function renderProfileReport(profile: Profile, source: ParsedSource, limit = 20): string {
+  const result: string[] = [];
+  result.push(`STEPS ${profile.steps}  CYCLES ${profile.cycles}`);
+  result.push('');
+  const hotspots = profile.lines
+    .filter(line => line.steps > 0)
+    .sort((a, b) => b.steps - a.steps || a.sourceIndex - b.sourceIndex)
+    .slice(0, limit);
+  const positionWidth = Math.max(4, ...hotspots.map(line => positionOf(source, line.sourceIndex).length));
+  result.push(`RANK  ${'STEPS'.padStart(10)}  ${'%'.padStart(5)}  ${'CYCLES'.padStart(10)}  ${'LINE'.padEnd(positionWidth)}  SOURCE`);
+  hotspots.forEach((line, index) => {
+    result.push([
+      String(index + 1).padStart(4),
+      String(line.steps).padStart(10),
+      percentOf(line.steps, profile.steps).padStart(5),
+      String(line.cycles).padStart(10),
+      positionOf(source, line.sourceIndex).padEnd(positionWidth),
+      source[line.sourceIndex].text.trim()
+    ].join('  ').trimRight());
+  });
+  if (profile.unattributedSteps > 0) {
+    result.push(`ソースの行に対応しない命令 ${profile.unattributedSteps}`);
+  }
+  result.push('');
+  result.push(`${'KIND'.padEnd(10)}  ${'STEPS'.padStart(10)}  ${'CYCLES'.padStart(10)}  ${'%'.padStart(5)}`);
+  profile.kinds.forEach((item) => {
+    result.push(`${item.kind.padEnd(10)}  ${String(item.steps).padStart(10)}  ${String(item.cycles).padStart(10)}  ${percentOf(item.cycles, profile.cycles).padStart(5)}`);
+  });
+  result.push('');
+  result.push(`${'INSTR'.padEnd(10)}  ${'STEPS'.padStart(10)}  ${'CYCLES'.padStart(10)}`);
+  profile.instructions.forEach((item) => {
+    result.push(`${item.mnemonic.padEnd(10)}  ${String(item.steps).padStart(10)}  ${String(item.cycles).padStart(10)}`);
+  });
+  if (profile.branches.length > 0) {
+    result.push('');
+    result.push(`ADDR  ${'INSTR'.padEnd(5)}  ${'TAKEN'.padStart(10)}  ${'NOT TAKEN'.padStart(10)}`);
+    profile.branches.forEach((branch) => {
+      result.push(`${toWordHex(branch.address)}  ${branch.mnemonic.padEnd(5)}  ${String(branch.taken).padStart(10)}  ${String(branch.notTaken).padStart(10)}`);
+    });
+  }
+  return `${result.join("\n")}\n`;
+}
+
+// ソースの各行の前に命令数とサイクル数を付ける。命令のない行は空欄、実行されなかった行は0になる
+export function renderAnnotatedSource(profile: Profile, source: ParsedSource): string {
+  const lines = new Map(profile.lines.map(line => [line.sourceIndex, line] as [number, SourceLineProfile]));
+  const withFileName = new Set(source.map(line => line.fileName)).size > 1;
+  const result: string[] = [`${'STEPS'.padStart(10)}  ${'CYCLES'.padStart(10)}  SOURCE`];
+  source.forEach((sourceLine, sourceIndex) => {
+    if (withFileName && (sourceIndex === 0 || source[sourceIndex - 1].fileName !== sourceLine.fileName)) {
+      result.push(`; ${sourceLine.fileName}`);
+    }
+    const line = lines.get(sourceIndex);
+    const steps = line ? String(line.steps) : '';
+    const cycles = line ? String(line.cycles) : '';
+    const branch = line && line.branch ? `  ; ${formatBranch(line.branch)}` : '';
+    result.push(`${steps.padStart(10)}  ${cycles.padStart(10)}  ${sourceLine.text}${branch}`.trimRight());
+  });
+  return `${result.join("\n")}\n`;
+}
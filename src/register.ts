@@ -1,13 +1,23 @@
-import { MemoryAddress, WordValue, FlagValue, GENERAL_REGISTER_NAMES, toWordHex } from "./utils";
+import { MemoryAddress, WordValue, FlagValue, GENERAL_REGISTER_NAMES, INITIAL_STACK_POINTER, toWordHex } from "./utils";
+import { toWord } from "./word";
+import { EventEmitter } from "./events";
+
+export type FlagName = 'OF' | 'SF' | 'ZF';
+
+// GR0〜GR7, PC, SP の変化と、フラグの変化。値が変わらない書き込みは通知しない
+export interface RegisterEvents {
+  'register-changed': { name: string, previous: WordValue, value: WordValue };
+  'flag-changed': { name: FlagName, previous: FlagValue, value: FlagValue };
+}
 
 export class Register {
-  private programCounter: MemoryAddress = 0;
-  private gRValues: { [key: string]: WordValue } = {};
-  private flagValues: { [key in 'OF' | 'SF' | 'ZF']: FlagValue } = { OF: 0, SF: 0, ZF: 0 };
+  readonly events = new EventEmitter<RegisterEvents>();
 
-  constructor() {
-    GENERAL_REGISTER_NAMES.forEach(name => this.gRValues[name] = 0);
-  }
+  private programCounter: MemoryAddress = 0;
+  private stackPointer: MemoryAddress = INITIAL_STACK_POINTER;
+  // GR0〜GR7の値。添字がGRの番号
+  private gRValues = new Uint16Array(GENERAL_REGISTER_NAMES.length);
+  private flagValues: { [key in FlagName]: FlagValue } = { OF: 0, SF: 0, ZF: 0 };
 
   getSignFlag(): FlagValue {
     return this.flagValues['SF'];
@@ -22,17 +32,26 @@ export class Register {
   }
 
   setFlags(o: FlagValue, s: FlagValue, z: FlagValue) {
+    if (this.events.hasListeners('flag-changed')) {
+      this.setFlagWithEvent('OF', o);
+      this.setFlagWithEvent('SF', s);
+      this.setFlagWithEvent('ZF', z);
+      return;
+    }
     this.flagValues['OF'] = o;
     this.flagValues['SF'] = s;
     this.flagValues['ZF'] = z;
   }
 
   getGRAt(index: number): WordValue {
-    return this.gRValues[this.gRKeyNameOf(index)];
+    return this.gRValues[this.gRIndexOf(index)];
   }
 
   setGRAt(index: number, value: WordValue) {
-    this.gRValues[this.gRKeyNameOf(index)] = value;
+    const gRIndex = this.gRIndexOf(index);
+    const previous = this.gRValues[gRIndex];
+    this.gRValues[gRIndex] = toWord(value);
+    this.notifyRegisterChanged(GENERAL_REGISTER_NAMES[gRIndex], previous, this.gRValues[gRIndex]);
   }
 
   getProgramCounter(): MemoryAddress {
@@ -40,25 +59,49 @@ export class Register {
   }
 
   setProgramCounter(value: MemoryAddress) {
-    this.programCounter = value;
+    const previous = this.programCounter;
+    this.programCounter = toWord(value);
+    this.notifyRegisterChanged('PC', previous, this.programCounter);
+  }
+
+  getStackPointer(): MemoryAddress {
+    return this.stackPointer;
   }
 
-  // TODO: SPを定義
+  setStackPointer(value: MemoryAddress) {
+    const previous = this.stackPointer;
+    this.stackPointer = toWord(value);
+    this.notifyRegisterChanged('SP', previous, this.stackPointer);
+  }
 
   toString(): string {
     let result = '';
     result += ` PC: ${toWordHex(this.getProgramCounter())}\n`;
+    result += ` SP: ${toWordHex(this.getStackPointer())}\n`;
     result += ` OF: ${toWordHex(this.getOverflowFlag())}\n`;
     result += ` SF: ${toWordHex(this.getSignFlag())}\n`;
     result += ` ZF: ${toWordHex(this.getZeroFlag())}\n`;
-    GENERAL_REGISTER_NAMES.forEach(name => result += `${name}: ${toWordHex(this.gRValues[name])}\n`);
+    GENERAL_REGISTER_NAMES.forEach((name, index) => result += `${name}: ${toWordHex(this.gRValues[index])}\n`);
     return result.trimRight();
   }
 
-  private gRKeyNameOf(index: number): string {
-    const name = `GR${index}`;
-    if (GENERAL_REGISTER_NAMES.includes(name)) {
-      return name;
+  private notifyRegisterChanged(name: string, previous: WordValue, value: WordValue) {
+    if (previous !== value && this.events.hasListeners('register-changed')) {
+      this.events.emit('register-changed', { name, previous, value });
+    }
+  }
+
+  private setFlagWithEvent(name: FlagName, value: FlagValue) {
+    const previous = this.flagValues[name];
+    this.flagValues[name] = value;
+    if (previous !== value) {
+      this.events.emit('flag-changed', { name, previous, value });
+    }
+  }
+
+  private gRIndexOf(index: number): number {
+    if (Number.isInteger(index) && index >= 0 && index < GENERAL_REGISTER_NAMES.length) {
+      return index;
     }
     throw new Error(`未定義のGR ${index}`);
   }
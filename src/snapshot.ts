@@ -0,0 +1,102 @@
+import { MemoryAddress, WordValue, FlagValue, GENERAL_REGISTER_NAMES } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { Machine } from "./machine";
+import { ObjectFile, ObjectSegment, ObjectCodeRange, memorySegmentsOf } from "./object_file";
+import { createStateDump } from "./dump";
+
+export const SNAPSHOT_FORMAT = 'comet2-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+const REGISTER_NAMES = ['PC', 'SP', 'OF', 'SF', 'ZF', ...GENERAL_REGISTER_NAMES];
+
+/**
+ * 実行途中の状態をJSONで保存する形式。復元すると続きから同じように実行できる
+ *
+ * - registers: PC, SP, OF, SF, ZF, GR0〜GR7 の値
+ * - memory: 書き込まれている語を連続した番地ごとにまとめたもの
+ * - strict / protectedRanges: 厳密モードかどうかと、書き込みを禁止している番地の区間
+ * - steps / stackLimit: 実行し終えた命令の数と、スタックとして使える領域の下限
+ * - inputs: IN命令がまだ読んでいない入力の行。復元後は標準入力などより先に読む。nullは入力の終わり
+ * - program: 実行していたプログラム。ラベルやソースの位置を表示するために使う
+ */
+export interface MachineSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  registers: { [key: string]: WordValue };
+  memory: ObjectSegment[];
+  strict: boolean;
+  protectedRanges: ObjectCodeRange[];
+  steps: number;
+  stackLimit: MemoryAddress;
+  inputs: (string | null)[];
+  program?: ObjectFile;
+}
+
+// inputsには、入出力の側で読み込んだもののIN命令がまだ読んでいない行を渡す
+export function createSnapshot(
+  machine: Machine,
+  memory: Memory,
+  register: Register,
+  options: { inputs?: string[], program?: ObjectFile } = {}
+): MachineSnapshot {
+  const state = machine.saveState();
+  const snapshot: MachineSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    registers: createStateDump(memory, register, { registers: true, memory: false }).registers || {},
+    memory: memorySegmentsOf(memory),
+    strict: memory.isStrictMode(),
+    protectedRanges: memory.protectedRanges(),
+    steps: state.steps,
+    stackLimit: state.stackLimit,
+    inputs: [...state.inputs, ...(options.inputs || [])]
+  };
+  if (options.program) {
+    snapshot.program = options.program;
+  }
+  return snapshot;
+}
+
+/**
+ * スナップショットの状態に戻す。memoryとregisterはmachineに渡したもので、まだ何も読み込んでいないものを使う。
+ * 戻した後は Machine.resume で続きを実行する
+ */
+export function restoreSnapshot(snapshot: MachineSnapshot, machine: Machine, memory: Memory, register: Register) {
+  memory.unprotectAll();
+  snapshot.memory.forEach(({ address, words }) => memory.loadRange(address, words));
+  memory.setStrictMode(snapshot.strict);
+  snapshot.protectedRanges.forEach(({ address, size }) => memory.protect(address, size));
+  const { registers } = snapshot;
+  GENERAL_REGISTER_NAMES.forEach((name, index) => register.setGRAt(index, registers[name]));
+  register.setProgramCounter(registers.PC);
+  register.setStackPointer(registers.SP);
+  register.setFlags(registers.OF as FlagValue, registers.SF as FlagValue, registers.ZF as FlagValue);
+  machine.restoreState({ steps: snapshot.steps, stackLimit: snapshot.stackLimit, inputs: snapshot.inputs });
+}
+
+export function serializeSnapshot(snapshot: MachineSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function parseSnapshot(text: string): MachineSnapshot {
+  let snapshot: MachineSnapshot;
+  try {
+    snapshot = JSON.parse(text);
+  } catch (e) {
+    throw new Error('不正なスナップショット');
+  }
+  if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error('不正なスナップショット');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`未対応のスナップショットのバージョン ${snapshot.version}`);
+  }
+  const registers = snapshot.registers;
+  if (!registers || !REGISTER_NAMES.every(name => Number.isInteger(registers[name]))
+    || !Array.isArray(snapshot.memory) || !Array.isArray(snapshot.protectedRanges) || !Array.isArray(snapshot.inputs)
+    || !Number.isInteger(snapshot.steps) || !Number.isInteger(snapshot.stackLimit)) {
+    throw new Error('不正なスナップショット');
+  }
+  return snapshot;
+}
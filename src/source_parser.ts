@@ -0,0 +1,114 @@
+import { SourceLine, SourceToken } from "./utils";
+
+function isBlank(char: string | undefined): boolean {
+  return char === ' ' || char === '\t';
+}
+
+class LineScanner {
+  private position = 0;
+
+  constructor(private text: string) {
+  }
+
+  isEnd(): boolean {
+    return this.position >= this.text.length;
+  }
+
+  peek(): string | undefined {
+    return this.text[this.position];
+  }
+
+  skipBlanks() {
+    while (isBlank(this.peek())) {
+      this.position += 1;
+    }
+  }
+
+  // 空白・カンマ・コメントのいずれかまでを1つの字句として読む。引用符の中はそのまま読み進める
+  readToken(): SourceToken | null {
+    const begin = this.position;
+    let quoted = false;
+    while (!this.isEnd()) {
+      const char = this.text[this.position];
+      if (char === "'") {
+        if (quoted && this.text[this.position + 1] === "'") {
+          // '' は引用符そのものを表す
+          this.position += 2;
+          continue;
+        }
+        quoted = !quoted;
+      } else if (!quoted && (isBlank(char) || char === ',' || char === ';')) {
+        break;
+      }
+      this.position += 1;
+    }
+    if (this.position === begin) {
+      return null;
+    }
+    return { value: this.text.slice(begin, this.position), column: begin + 1 };
+  }
+
+  readRest(): SourceToken | null {
+    if (this.isEnd()) {
+      return null;
+    }
+    const begin = this.position;
+    this.position = this.text.length;
+    return { value: this.text.slice(begin).trimRight(), column: begin + 1 };
+  }
+
+  consume(char: string): boolean {
+    if (this.peek() === char) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+}
+
+function readOperands(scanner: LineScanner): SourceToken[] {
+  const operands: SourceToken[] = [];
+  if (scanner.isEnd() || scanner.peek() === ';') {
+    return operands;
+  }
+  while (true) {
+    const token = scanner.readToken();
+    if (token) {
+      operands.push(token);
+    }
+    // カンマの前後の空白は許容し、カンマが続かなければオペランド欄の終わりとする
+    scanner.skipBlanks();
+    if (!scanner.consume(',')) {
+      break;
+    }
+    scanner.skipBlanks();
+  }
+  return operands;
+}
+
+// CASL IIの1行を ラベル・命令・オペランド・注釈 の欄に分解する
+export function parseLine(text: string, lineNumber = 1, fileName: string | null = null): SourceLine {
+  const scanner = new LineScanner(text);
+  const line: SourceLine = { fileName, lineNumber, text, label: null, instruction: null, operands: [], comment: null };
+  // 行頭が空白でなければラベル欄から始まる
+  if (!isBlank(scanner.peek()) && scanner.peek() !== ';') {
+    line.label = scanner.readToken();
+  }
+  scanner.skipBlanks();
+  if (scanner.peek() !== ';') {
+    line.instruction = scanner.readToken();
+    scanner.skipBlanks();
+    line.operands = readOperands(scanner);
+    scanner.skipBlanks();
+  }
+  line.comment = scanner.readRest();
+  return line;
+}
+
+export function parseLines(text: string, fileName: string | null = null): SourceLine[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n$/, '')
+    .split("\n")
+    .map((line, index) => parseLine(line, index + 1, fileName));
+}
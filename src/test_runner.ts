@@ -0,0 +1,275 @@
+import {
+  MemoryAddress, WordValue, ParsedSource, GENERAL_REGISTER_NAMES, parseConst, parseStringConst, toWordHex
+} from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { Compiler } from "./compiler";
+import { Machine } from "./machine";
+import { Profiler } from "./profiler";
+import { IO } from "./io";
+import { formatDiagnostic, hasError } from "./diagnostics";
+
+export const DEFAULT_MAX_STEPS = 1000000;
+
+export interface TestExpectation {
+  // GR0〜GR7, SP, PC, OF, SF, ZF またはラベル名
+  target: string;
+  // ラベル[n] の n
+  offset: number;
+  expected: WordValue;
+  line: number;
+}
+
+export interface TestCase {
+  name: string;
+  line: number;
+  inputs: string[];
+  // outを1つも書かなければ出力は比べない
+  outputs: string[] | null;
+  expectations: TestExpectation[];
+}
+
+export interface TestSpec {
+  fileName: string | null;
+  sources: string[];
+  maxSteps: number;
+  // 未初期化の語の読み出しと命令の領域への書き込みを失敗とする
+  strict: boolean;
+  cases: TestCase[];
+}
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  // 失敗の理由と差分。1要素が1行
+  failures: string[];
+}
+
+const FLAG_NAMES = Object.freeze(['OF', 'SF', 'ZF']);
+
+function specError(fileName: string | null, line: number, message: string): Error {
+  return new Error(`${fileName || '<spec>'}:${line}: ${message}`);
+}
+
+function parseExpectation(text: string, fileName: string | null, line: number): TestExpectation {
+  const match = text.match(/^([A-Za-z][A-Za-z0-9]*)(?:\[([0-9]+)\])?\s*==\s*(.+)$/);
+  if (!match) {
+    throw specError(fileName, line, `不正な期待値 ${text}`);
+  }
+  const valueText = match[3].trim();
+  let expected: WordValue | null;
+  try {
+    const chars = parseStringConst(valueText);
+    expected = chars !== null && chars.length === 1 ? chars[0] : parseConst(valueText);
+  } catch (e) {
+    expected = null;
+  }
+  if (expected === null) {
+    throw specError(fileName, line, `不正な値 ${valueText}`);
+  }
+  return { target: match[1].toUpperCase(), offset: match[2] ? Number(match[2]) : 0, expected, line };
+}
+
+/**
+ * テストの仕様を読む。1行に1つの指示を書き、;で始まる行は注釈とする
+ *
+ * source <ファイル...>  アセンブルするソース(仕様のファイルからの相対パス)
+ * max-steps <命令数>    1つのケースで実行する命令数の上限
+ * strict                未初期化の語の読み出しと命令の領域への書き込みを失敗とする
+ * case <名前>           ケースの始まり
+ * in <文字列>           IN命令に渡す1行
+ * out <文字列>          OUT命令で出力されるはずの1行
+ * expect <対象> == <値> 実行後のレジスタ・フラグ・ラベルの番地の値(ラベル[n]でn語目)
+ */
+export function parseTestSpec(text: string, fileName: string | null = null): TestSpec {
+  const spec: TestSpec = { fileName, sources: [], maxSteps: DEFAULT_MAX_STEPS, strict: false, cases: [] };
+  let current: TestCase | null = null;
+  const currentCase = (line: number): TestCase => {
+    if (!current) {
+      // caseを書かなければファイル全体を1つのケースとする
+      current = { name: fileName || '(default)', line, inputs: [], outputs: null, expectations: [] };
+      spec.cases.push(current);
+    }
+    return current;
+  };
+  text.replace(/\r\n?/g, "\n").split("\n").forEach((rawLine, index) => {
+    const line = index + 1;
+    if (rawLine.trim() === '' || rawLine.trim().startsWith(';')) {
+      return;
+    }
+    const match = rawLine.match(/^(\S+)(?: (.*))?$/);
+    if (!match) {
+      throw specError(fileName, line, `不正な行 ${rawLine}`);
+    }
+    const [, directive, rest = ''] = match;
+    switch (directive) {
+      case 'source':
+        spec.sources.push(...rest.trim().split(/\s+/).filter(item => item !== ''));
+        break;
+      case 'max-steps':
+        spec.maxSteps = Number.parseInt(rest, 10);
+        if (!(spec.maxSteps > 0)) {
+          throw specError(fileName, line, `不正な命令数 ${rest}`);
+        }
+        break;
+      case 'strict':
+        spec.strict = true;
+        break;
+      case 'case':
+        current = { name: rest.trim() || `case ${spec.cases.length + 1}`, line, inputs: [], outputs: null, expectations: [] };
+        spec.cases.push(current);
+        break;
+      case 'in':
+        currentCase(line).inputs.push(rest);
+        break;
+      case 'out': {
+        const testCase = currentCase(line);
+        testCase.outputs = [...(testCase.outputs || []), rest];
+        break;
+      }
+      case 'expect':
+        currentCase(line).expectations.push(parseExpectation(rest.trim(), fileName, line));
+        break;
+      default:
+        throw specError(fileName, line, `未定義の指示 ${directive}`);
+    }
+  });
+  if (spec.sources.length === 0) {
+    throw specError(fileName, 1, 'sourceがない');
+  }
+  return spec;
+}
+
+function formatValue(value: WordValue | undefined): string {
+  return value === undefined ? '未定義' : `${value} (#${toWordHex(value)})`;
+}
+
+function actualValueOf(expectation: TestExpectation, memory: Memory, register: Register, labels: { [key: string]: MemoryAddress }): WordValue | undefined {
+  const { target, offset } = expectation;
+  if (GENERAL_REGISTER_NAMES.includes(target)) {
+    return register.getGRAt(Number(target.substring(2)));
+  }
+  if (target === 'SP') {
+    return register.getStackPointer();
+  }
+  if (target === 'PC') {
+    return register.getProgramCounter();
+  }
+  if (FLAG_NAMES.includes(target)) {
+    return { OF: register.getOverflowFlag(), SF: register.getSignFlag(), ZF: register.getZeroFlag() }[target as 'OF' | 'SF' | 'ZF'];
+  }
+  const address = labels[target];
+  if (address === undefined) {
+    throw new Error(`未定義のラベル ${target}`);
+  }
+  return memory.peekValueAt(address + offset);
+}
+
+// 期待した行と実際の行を並べ、違う行に - と + を付ける
+function outputDiff(expected: string[], actual: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < Math.max(expected.length, actual.length); i += 1) {
+    if (expected[i] === actual[i]) {
+      result.push(`  ${expected[i]}`);
+      continue;
+    }
+    if (expected[i] !== undefined) {
+      result.push(`- ${expected[i]}`);
+    }
+    if (actual[i] !== undefined) {
+      result.push(`+ ${actual[i]}`);
+    }
+  }
+  return result;
+}
+
+// ケースごとにアセンブルし直し、入出力を画面につながずに実行する。
+// profilerを渡すとケースをまたいで実行した命令を数える(どのケースも同じ番地に配置される)
+export async function runTestCase(
+  source: ParsedSource, testCase: TestCase, maxSteps = DEFAULT_MAX_STEPS, strict = false, profiler: Profiler | null = null
+): Promise<TestCaseResult> {
+  const failures: string[] = [];
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, source, {});
+  let entryAddr: MemoryAddress;
+  try {
+    entryAddr = compiler.compile();
+  } catch (e) {
+    return { name: testCase.name, passed: false, failures: ['アセンブルエラー', e.message] };
+  }
+  const diagnostics = compiler.diagnostics();
+  if (hasError(diagnostics)) {
+    return {
+      name: testCase.name,
+      passed: false,
+      failures: ['アセンブルエラー', ...diagnostics.filter(item => item.severity === 'error').map(formatDiagnostic)]
+    };
+  }
+  if (strict) {
+    memory.setStrictMode(true);
+    compiler.codeLocations().forEach(({ address, size }) => memory.protect(address, size));
+  }
+  const inputs = [...testCase.inputs];
+  const outputs: string[] = [];
+  const io = new IO(async () => {
+    const value = inputs.shift();
+    return value === undefined ? null : value;
+  }, async (value: string) => {
+    outputs.push(value);
+  });
+  const machine = new Machine(memory, register, io);
+  machine.setProfiler(profiler);
+  try {
+    const result = await machine.execute(entryAddr, { maxSteps });
+    if (result.error) {
+      failures.push(`実行時エラー ${result.error.message}`);
+    } else if (result.reason === 'step-limit') {
+      failures.push(`実行する命令数が上限(${maxSteps})を超えた PC: #${toWordHex(result.programCounter)}`);
+    }
+  } catch (e) {
+    // 実行できなかった場合も、そのケースの失敗として残りのケースを続ける
+    failures.push(`実行時エラー ${e.message}`);
+  }
+
+  const expectedOutputs = testCase.outputs;
+  if (expectedOutputs !== null
+    && (expectedOutputs.length !== outputs.length || expectedOutputs.some((line, index) => line !== outputs[index]))) {
+    failures.push('出力が異なる', ...outputDiff(expectedOutputs, outputs));
+  }
+  const labels: { [key: string]: MemoryAddress } = {};
+  compiler.symbols().forEach(({ name, address }) => {
+    if (labels[name] === undefined) {
+      labels[name] = address;
+    }
+  });
+  testCase.expectations.forEach((expectation) => {
+    const name = expectation.offset === 0 ? expectation.target : `${expectation.target}[${expectation.offset}]`;
+    try {
+      const actual = actualValueOf(expectation, memory, register, labels);
+      if (actual !== expectation.expected) {
+        failures.push(`${name}: 期待値 ${formatValue(expectation.expected)} 実際 ${formatValue(actual)}`);
+      }
+    } catch (e) {
+      failures.push(`${name}: ${e.message}`);
+    }
+  });
+  return { name: testCase.name, passed: failures.length === 0, failures };
+}
+
+export async function runTestSpec(spec: TestSpec, source: ParsedSource, profiler: Profiler | null = null): Promise<TestCaseResult[]> {
+  const results: TestCaseResult[] = [];
+  for (const testCase of spec.cases) {
+    results.push(await runTestCase(source, testCase, spec.maxSteps, spec.strict, profiler));
+  }
+  return results;
+}
+
+export function formatTestResults(results: TestCaseResult[]): string[] {
+  const lines: string[] = [];
+  results.forEach((result) => {
+    lines.push(`  ${result.passed ? 'PASS' : 'FAIL'} ${result.name}`);
+    result.failures.forEach(failure => lines.push(`      ${failure}`));
+  });
+  return lines;
+}
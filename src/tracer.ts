@@ -0,0 +1,183 @@
+import { MemoryAddress, WordValue, toWordHex } from "./utils";
+import { Memory } from "./memory";
+import { Register } from "./register";
+import { HistoryEntry, REGISTER_SLOT_STACK_POINTER, REGISTER_SLOT_FLAGS } from "./history";
+import { SymbolNames, disassembleAt, formatInstruction } from "./disassembler";
+
+export type InstructionKind = 'load' | 'arithmetic' | 'logical' | 'compare' | 'shift' | 'jump' | 'stack' | 'call' | 'svc' | 'other';
+
+const INSTRUCTION_KINDS: { [key: string]: InstructionKind } = Object.freeze({
+  LD: 'load',
+  ST: 'load',
+  LAD: 'load',
+  ADDA: 'arithmetic',
+  SUBA: 'arithmetic',
+  ADDL: 'arithmetic',
+  SUBL: 'arithmetic',
+  AND: 'logical',
+  OR: 'logical',
+  XOR: 'logical',
+  CPA: 'compare',
+  CPL: 'compare',
+  SLA: 'shift',
+  SRA: 'shift',
+  SLL: 'shift',
+  SRL: 'shift',
+  JMI: 'jump',
+  JNZ: 'jump',
+  JZE: 'jump',
+  JUMP: 'jump',
+  JPL: 'jump',
+  JOV: 'jump',
+  PUSH: 'stack',
+  POP: 'stack',
+  CALL: 'call',
+  RET: 'call',
+  SVC: 'svc',
+});
+
+export function instructionKindOf(mnemonic: string): InstructionKind {
+  return INSTRUCTION_KINDS[mnemonic] || 'other';
+}
+
+export interface TraceRecord {
+  // 1から数えた実行順
+  step: number;
+  address: MemoryAddress;
+  words: WordValue[];
+  mnemonic: string;
+  instruction: string;
+  effectiveAddress: MemoryAddress | null;
+  // 値が変わったレジスタ・フラグの実行後の値
+  registers: { [key: string]: WordValue };
+  flags: { [key: string]: WordValue };
+  memory: { address: MemoryAddress, value: WordValue }[];
+}
+
+/**
+ * 記録する命令の条件。指定したものをすべて満たす命令だけを記録する
+ *
+ * - from, to: 命令の番地の範囲(toを含む)
+ * - kinds: 命令の種類
+ * - mnemonics: 命令の名前
+ */
+export interface TraceFilter {
+  from?: MemoryAddress;
+  to?: MemoryAddress;
+  kinds?: InstructionKind[];
+  mnemonics?: string[];
+}
+
+const FLAG_BITS: [string, number][] = [['OF', 1], ['SF', 2], ['ZF', 4]];
+
+function flagSlotOf(register: Register): number {
+  return register.getOverflowFlag() | (register.getSignFlag() << 1) | (register.getZeroFlag() << 2);
+}
+
+// Machine.setTracerで渡すと、実行した命令を1つずつ記録する
+export class Tracer {
+  private recordList: TraceRecord[] = [];
+  private stepCount = 0;
+  private pending: TraceRecord | null = null;
+
+  constructor(
+    private filter: TraceFilter = {},
+    private symbols: SymbolNames = {},
+    private relocations: Set<MemoryAddress> | null = null
+  ) {
+  }
+
+  records(): TraceRecord[] {
+    return [...this.recordList];
+  }
+
+  clear() {
+    this.recordList = [];
+    this.stepCount = 0;
+  }
+
+  beforeInstruction(memory: Memory, register: Register) {
+    this.stepCount += 1;
+    const address = register.getProgramCounter();
+    const line = disassembleAt(memory, address, this.symbols, this.relocations);
+    if (!this.matches(address, line.mnemonic)) {
+      this.pending = null;
+      return;
+    }
+    let effectiveAddress: MemoryAddress | null = null;
+    if (line.words.length === 2) {
+      const indexRegister = line.words[0] & 0xF;
+      effectiveAddress = (line.words[1] + (indexRegister !== 0 ? register.getGRAt(indexRegister) : 0)) & 0xFFFF;
+    }
+    this.pending = {
+      step: this.stepCount,
+      address,
+      words: line.words,
+      mnemonic: line.mnemonic,
+      instruction: formatInstruction(line),
+      effectiveAddress,
+      registers: {},
+      flags: {},
+      memory: []
+    };
+  }
+
+  // entryには実行前の値が入っているので、実行後の値を読み直して記録する
+  afterInstruction(entry: HistoryEntry, memory: Memory, register: Register) {
+    const record = this.pending;
+    this.pending = null;
+    if (!record) {
+      return;
+    }
+    for (let i = 0; i < entry.registers.length; i += 2) {
+      const slot = entry.registers[i];
+      if (slot === REGISTER_SLOT_FLAGS) {
+        const flags = flagSlotOf(register);
+        FLAG_BITS
+          .filter(([, bit]) => (flags & bit) !== (entry.registers[i + 1] & bit))
+          .forEach(([name, bit]) => { record.flags[name] = (flags & bit) ? 1 : 0; });
+      } else if (slot === REGISTER_SLOT_STACK_POINTER) {
+        record.registers.SP = register.getStackPointer();
+      } else {
+        record.registers[`GR${slot}`] = register.getGRAt(slot);
+      }
+    }
+    for (let i = 0; i < entry.memory.length; i += 2) {
+      const address = entry.memory[i];
+      if (!record.memory.some(item => item.address === address)) {
+        record.memory.push({ address, value: memory.peekValueAt(address) || 0 });
+      }
+    }
+    this.recordList.push(record);
+  }
+
+  toJSONLines(): string {
+    return this.recordList.map(record => `${JSON.stringify(record)}\n`).join('');
+  }
+
+  toText(): string {
+    return this.recordList.map(record => `${formatTraceRecord(record)}\n`).join('');
+  }
+
+  private matches(address: MemoryAddress, mnemonic: string): boolean {
+    const { from, to, kinds, mnemonics } = this.filter;
+    if ((from !== undefined && address < from) || (to !== undefined && address > to)) {
+      return false;
+    }
+    if (kinds && !kinds.includes(instructionKindOf(mnemonic))) {
+      return false;
+    }
+    return !mnemonics || mnemonics.includes(mnemonic);
+  }
+}
+
+export function formatTraceRecord(record: TraceRecord): string {
+  const changes: string[] = [];
+  if (record.effectiveAddress !== null) {
+    changes.push(`EA=${toWordHex(record.effectiveAddress)}`);
+  }
+  Object.keys(record.registers).forEach(name => changes.push(`${name}=${toWordHex(record.registers[name])}`));
+  Object.keys(record.flags).forEach(name => changes.push(`${name}=${record.flags[name]}`));
+  record.memory.forEach(({ address, value }) => changes.push(`[${toWordHex(address)}]=${toWordHex(value)}`));
+  return `${String(record.step).padStart(6)} ${toWordHex(record.address)}: ${record.instruction.padEnd(20)} ${changes.join(' ')}`.trimRight();
+}
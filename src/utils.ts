@@ -1,61 +1,157 @@
+import { parseLines } from "./source_parser";
+import { AssembleError } from "./diagnostics";
+
 export type MemoryAddress = number;
 export type WordValue = number;
 export type FlagValue = 0 | 1;
 export type MemoryDump = [MemoryAddress, WordValue][];
-export type ParsedSource = string[][];
+export type ParsedSource = SourceLine[];
+
+export interface SourceToken {
+  value: string;
+  // 行頭を1とする桁位置
+  column: number;
+}
+
+export interface SourceLine {
+  fileName: string | null;
+  lineNumber: number;
+  text: string;
+  label: SourceToken | null;
+  instruction: SourceToken | null;
+  operands: SourceToken[];
+  comment: SourceToken | null;
+}
 
 export const GENERAL_REGISTER_NAMES = Object.freeze(['GR0', 'GR1', 'GR2', 'GR3', 'GR4', 'GR5', 'GR6', 'GR7']);
 
+// OSから呼び出された時点のSP。最初にPUSHした値は#FFFFに積まれる
+export const INITIAL_STACK_POINTER = 0;
+
+// IN命令で受け付ける最大の文字数
+export const INPUT_BUFFER_SIZE = 256;
+
 export const MACHINE_INSTRUCTION_NUMBER: { [key: string]: { [key: number]: number } } = Object.freeze({
-  AND: { 1: 0x34, 2: 0x30 },
+  NOP: { 1: 0x00 },
   LD: { 1: 0x14, 2: 0x10 },
   ST: { 2: 0x11 },
+  LAD: { 2: 0x12 },
+  ADDA: { 1: 0x24, 2: 0x20 },
+  SUBA: { 1: 0x25, 2: 0x21 },
+  ADDL: { 1: 0x26, 2: 0x22 },
+  SUBL: { 1: 0x27, 2: 0x23 },
+  AND: { 1: 0x34, 2: 0x30 },
+  OR: { 1: 0x35, 2: 0x31 },
+  XOR: { 1: 0x36, 2: 0x32 },
   CPA: { 1: 0x44, 2: 0x40 },
-  JZE: { 2: 0x63 },
+  CPL: { 1: 0x45, 2: 0x41 },
+  SLA: { 2: 0x50 },
+  SRA: { 2: 0x51 },
+  SLL: { 2: 0x52 },
+  SRL: { 2: 0x53 },
   JMI: { 2: 0x61 },
-  JPL: { 2: 0x65 },
-  SUBA: { 1: 0x25 },
-  ADDA: { 2: 0x20 },
+  JNZ: { 2: 0x62 },
+  JZE: { 2: 0x63 },
   JUMP: { 2: 0x64 },
+  JPL: { 2: 0x65 },
+  JOV: { 2: 0x66 },
+  PUSH: { 2: 0x70 },
+  POP: { 1: 0x71 },
+  CALL: { 2: 0x80 },
   RET: { 1: 0x81 },
-  SVC: { 2: 0xFF },
-  LAD: { 2: 0x12 }
+  SVC: { 2: 0xF0 }
+});
+
+// 命令ごとのオペランド数の下限と上限
+export const OPERAND_COUNT_RANGE: { [key: string]: [number, number] } = Object.freeze({
+  START: [0, 1],
+  END: [0, 0],
+  DS: [1, 1],
+  DC: [1, Infinity],
+  IN: [2, 2],
+  OUT: [2, 2],
+  RPUSH: [0, 0],
+  RPOP: [0, 0],
+  NOP: [0, 0],
+  LD: [2, 3],
+  ST: [2, 3],
+  LAD: [2, 3],
+  ADDA: [2, 3],
+  SUBA: [2, 3],
+  ADDL: [2, 3],
+  SUBL: [2, 3],
+  AND: [2, 3],
+  OR: [2, 3],
+  XOR: [2, 3],
+  CPA: [2, 3],
+  CPL: [2, 3],
+  SLA: [2, 3],
+  SRA: [2, 3],
+  SLL: [2, 3],
+  SRL: [2, 3],
+  JMI: [1, 2],
+  JNZ: [1, 2],
+  JZE: [1, 2],
+  JUMP: [1, 2],
+  JPL: [1, 2],
+  JOV: [1, 2],
+  PUSH: [1, 2],
+  POP: [1, 1],
+  CALL: [1, 2],
+  RET: [0, 0],
+  SVC: [1, 2]
 });
 
 export function toWordHex(num: number): string {
   return ('0000' + (num.toString(16))).slice(-4).toUpperCase();
 }
 
-export function parseSource(text: string): ParsedSource {
-  return text
-    .replace(/\r\n?/g, "\n")
-    .trim()
-    .split("\n")
-    .map((line) => [...line.split("\t"), '', '', ''].slice(0, 4));
+export function parseSource(text: string, fileName: string | null = null): ParsedSource {
+  return parseLines(text, fileName);
 }
 
+// 10進定数・16進定数を語の値にする。定数の形式でなければnullを返す
 export function parseConst(value: string | null): number | null {
   if (!value) {
     return null;
   }
-  if (value.startsWith('#')) {
+  if (/^#[0-9A-Fa-f]{4}$/.test(value)) {
     return Number.parseInt(value.substring(1), 16);
   }
-  if (['1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '-'].includes(value[0])) {
-    return Number.parseInt(value);
+  if (/^-?[0-9]+$/.test(value)) {
+    const parsedValue = Number.parseInt(value, 10);
+    if (parsedValue < -32768 || parsedValue > 65535) {
+      throw new AssembleError('out-of-range', `範囲外の定数 ${value}`, value);
+    }
+    return parsedValue & 0xFFFF;
+  }
+  if (value.startsWith('#') || /^-?[0-9]/.test(value)) {
+    throw new AssembleError('invalid-constant', `不正な定数 ${value}`, value);
   }
   return null;
 }
 
-export function isASCII(value: string): boolean {
-  return /^[\x00-\x7F]*$/.test(value);
+// 文字定数を1文字1語の値の並びにする。文字定数の形式でなければnullを返す
+export function parseStringConst(value: string | null): number[] | null {
+  if (!value || value.length < 2 || !value.startsWith("'") || !value.endsWith("'")) {
+    return null;
+  }
+  const body = value.slice(1, -1);
+  // 文字列中の引用符は '' と2つ重ねて書く
+  if (body.length === 0 || body.replace(/''/g, '').includes("'")) {
+    throw new AssembleError('invalid-constant', `不正な文字定数 ${value}`, value);
+  }
+  const chars = body.replace(/''/g, "'");
+  if (!isASCII(chars)) {
+    throw new AssembleError('invalid-constant', `不正な文字定数 ${value}`, value);
+  }
+  return chars.split('').map(char => char.charCodeAt(0));
+}
+
+export function isLabelName(value: string): boolean {
+  return /^[A-Z][A-Z0-9]{0,7}$/.test(value) && !GENERAL_REGISTER_NAMES.includes(value);
 }
 
-export function memoryDebugInfo(memoryDump: MemoryDump, addrToSource: { [key: number]: number }, source: ParsedSource): [string, string, string, string[]][] {
-  return memoryDump.map((line) => {
-    const [addr, value] = line;
-    const sourceIndex = addrToSource[addr];
-    const asciiChar = isASCII(String.fromCharCode(value)) ? escape(String.fromCharCode(value)) : '';
-    return [toWordHex(addr), toWordHex(value), asciiChar, sourceIndex ? source[sourceIndex] : null || []];
-  });
+export function isASCII(value: string): boolean {
+  return /^[\x00-\x7F]*$/.test(value);
 }
@@ -0,0 +1,96 @@
+import { WordValue, FlagValue } from "./utils";
+
+// 16bitの語を2の補数表現として扱う演算をまとめる
+
+export interface WordResult {
+  value: WordValue;
+  overflow: FlagValue;
+}
+
+export interface WordFlags {
+  overflow: FlagValue;
+  sign: FlagValue;
+  zero: FlagValue;
+}
+
+export function toWord(value: number): WordValue {
+  return value & 0xFFFF;
+}
+
+export function toSigned(value: WordValue): number {
+  return (value << 16) >> 16;
+}
+
+export function flagsOf(result: WordResult): WordFlags {
+  return {
+    overflow: result.overflow,
+    sign: (result.value & 0x8000) ? 1 : 0,
+    zero: result.value === 0 ? 1 : 0
+  };
+}
+
+export function logicalResultOf(value: number): WordResult {
+  return { value: toWord(value), overflow: 0 };
+}
+
+export function addArithmetic(a: WordValue, b: WordValue): WordResult {
+  const result = toSigned(toWord(a)) + toSigned(toWord(b));
+  return { value: toWord(result), overflow: result < -0x8000 || result > 0x7FFF ? 1 : 0 };
+}
+
+export function subtractArithmetic(a: WordValue, b: WordValue): WordResult {
+  const result = toSigned(toWord(a)) - toSigned(toWord(b));
+  return { value: toWord(result), overflow: result < -0x8000 || result > 0x7FFF ? 1 : 0 };
+}
+
+export function addLogical(a: WordValue, b: WordValue): WordResult {
+  const result = toWord(a) + toWord(b);
+  return { value: toWord(result), overflow: result > 0xFFFF ? 1 : 0 };
+}
+
+export function subtractLogical(a: WordValue, b: WordValue): WordResult {
+  const result = toWord(a) - toWord(b);
+  return { value: toWord(result), overflow: result < 0 ? 1 : 0 };
+}
+
+function compareFlagsOf(a: number, b: number): WordFlags {
+  return { overflow: 0, sign: a < b ? 1 : 0, zero: a === b ? 1 : 0 };
+}
+
+export function compareArithmetic(a: WordValue, b: WordValue): WordFlags {
+  return compareFlagsOf(toSigned(toWord(a)), toSigned(toWord(b)));
+}
+
+export function compareLogical(a: WordValue, b: WordValue): WordFlags {
+  return compareFlagsOf(toWord(a), toWord(b));
+}
+
+// シフト命令は最後に送り出されたビットをOFに設定する
+export function shiftLeftArithmetic(value: WordValue, count: number): WordResult {
+  const word = toWord(value);
+  const sign = word & 0x8000;
+  const overflow = count > 0 && count <= 15 ? (word >> (15 - count)) & 1 : 0;
+  const result = count >= 15 ? sign : sign | ((word << count) & 0x7FFF);
+  return { value: result, overflow: overflow as FlagValue };
+}
+
+export function shiftRightArithmetic(value: WordValue, count: number): WordResult {
+  const signed = toSigned(toWord(value));
+  const overflow = count > 0 ? (signed >> (Math.min(count, 16) - 1)) & 1 : 0;
+  const result = signed >> Math.min(count, 15);
+  return { value: toWord(result), overflow: overflow as FlagValue };
+}
+
+export function shiftLeftLogical(value: WordValue, count: number): WordResult {
+  const word = toWord(value);
+  const overflow = count > 0 && count <= 16 ? (word >> (16 - count)) & 1 : 0;
+  const result = count >= 16 ? 0 : word << count;
+  return { value: toWord(result), overflow: overflow as FlagValue };
+}
+
+export function shiftRightLogical(value: WordValue, count: number): WordResult {
+  const word = toWord(value);
+  const overflow = count > 0 && count <= 16 ? (word >> (count - 1)) & 1 : 0;
+  const result = count >= 16 ? 0 : word >> count;
+  return { value: result, overflow: overflow as FlagValue };
+}
@@ -0,0 +1,31 @@
+import { parseSource } from "../src/utils";
+import { runBenchmark, formatBenchmarkResults } from "../src/benchmark";
+
+describe('benchmark', () => {
+  it('counts executed instructions', async () => {
+    const source = parseSource([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,0',
+      'LOOP\tLAD\tGR1,1,GR1',
+      '\tCPA\tGR1,=100',
+      '\tJNZ\tLOOP',
+      '\tRET',
+      '\tEND',
+    ].join("\n"));
+    const result = await runBenchmark('loop', source, 2);
+    expect(result.name).toBe('loop');
+    expect(result.steps).toBe(1 + 100 * 3);
+    expect(result.milliseconds).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports assemble errors', async () => {
+    await expect(runBenchmark('broken', parseSource("MAIN\tSTART\n\tFOO\n\tEND"))).rejects.toThrow();
+  });
+
+  it('formats results as a table', () => {
+    expect(formatBenchmarkResults([{ name: 'loop', steps: 2000, milliseconds: 2 }])).toEqual([
+      'NAME       STEPS        MS       STEPS/S',
+      'loop        2000         2       1000000',
+    ]);
+  });
+});
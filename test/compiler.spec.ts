@@ -0,0 +1,102 @@
+import { Memory } from "../src/memory";
+import { Compiler } from "../src/compiler";
+import { parseSource } from "../src/utils";
+import { Diagnostic } from "../src/diagnostics";
+
+function compile(lines: string[]): { memory: Memory, entryAddr: number, labels: { [key: string]: number }, diagnostics: Diagnostic[] } {
+  const memory = new Memory();
+  const labels = {};
+  const compiler = new Compiler(memory, 0, parseSource(lines.join("\n"), 'test.cas'), labels);
+  const entryAddr = compiler.compile();
+  return { memory, entryAddr, labels, diagnostics: compiler.diagnostics() };
+}
+
+describe('Compiler', () => {
+  it('returns the address given to START as the entry point', () => {
+    const { entryAddr } = compile([
+      'MAIN\tSTART\tBEGIN',
+      'DATA\tDC\t3',
+      'BEGIN\tLD\tGR1,DATA',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(entryAddr).toBe(1);
+  });
+
+  it('links several modules with module scoped labels', () => {
+    const { memory, entryAddr, labels } = compile([
+      'MAIN\tSTART',
+      '\tCALL\tSUB',
+      'X\tRET',
+      '\tEND',
+      'SUB\tSTART\tBODY',
+      'X\tDC\t5',
+      'BODY\tLD\tGR1,X',
+      '\tADDA\tGR1,=1',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(entryAddr).toBe(0);
+    expect(labels).toEqual({ MAIN: 0, SUB: 4 });
+    // CALL SUB
+    expect(memory.getValueAt(1)).toBe(4);
+    // LD GR1,X はSUB内のXを参照する
+    expect(memory.getValueAt(5)).toBe(3);
+    // リテラルはSUBの末尾に置かれる
+    expect(memory.getValueAt(7)).toBe(9);
+    expect(memory.getValueAt(9)).toBe(1);
+  });
+
+  it('allocates every kind of DC constant in one operand list', () => {
+    const { memory } = compile([
+      'MAIN\tSTART',
+      "DATA\tDC\t0, -1, #00FF, 'It''s', DATA",
+      '\tEND',
+    ]);
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(address => memory.getValueAt(address)))
+      .toEqual([0, 0xFFFF, 0x00FF, 0x49, 0x74, 0x27, 0x73, 0]);
+  });
+
+  it('places character literals in the literal pool', () => {
+    const { memory } = compile([
+      'MAIN\tSTART',
+      "\tLD\tGR1,='AB'",
+      '\tLD\tGR2,=#0010',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(memory.getValueAt(1)).toBe(5);
+    expect(memory.getValueAt(3)).toBe(7);
+    expect([5, 6, 7].map(address => memory.getValueAt(address))).toEqual([0x41, 0x42, 0x10]);
+  });
+
+  it('reports out of range constants', () => {
+    const { diagnostics } = compile(['MAIN\tSTART', '\tDC\t1, 65536', '\tDC\t#12345', '\tEND']);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.line, diagnostic.column, diagnostic.message])).toEqual([
+      ['out-of-range', 2, 8, '範囲外の定数 65536'],
+      ['invalid-constant', 3, 5, '不正な定数 #12345'],
+    ]);
+  });
+
+  it('keeps assembling after errors and reports every problem', () => {
+    const { diagnostics } = compile([
+      'MAIN    START',
+      '        LD     GR1, NOWHERE',
+      '        FOO    GR1',
+      'LOOP    ADDA   GR1, =1',
+      'LOOP    RET',
+      'unused  DC     1',
+      '        POP    GR1, GR2',
+    ]);
+    expect(diagnostics).toEqual([
+      { severity: 'error', code: 'unknown-instruction', fileName: 'test.cas', line: 3, column: 9, message: '未定義の命令 FOO' },
+      { severity: 'warning', code: 'duplicate-label', fileName: 'test.cas', line: 5, column: 1, message: 'ラベルの重複 LOOP' },
+      { severity: 'warning', code: 'invalid-label', fileName: 'test.cas', line: 6, column: 1, message: '不正なラベル名 unused' },
+      { severity: 'warning', code: 'operand-count', fileName: 'test.cas', line: 7, column: 9, message: 'オペランドの数が不正 POP' },
+      { severity: 'warning', code: 'missing-end', fileName: 'test.cas', line: 7, column: 9, message: 'ENDがない MAIN' },
+      { severity: 'error', code: 'undefined-label', fileName: 'test.cas', line: 2, column: 21, message: '未定義のラベル NOWHERE' },
+      { severity: 'warning', code: 'unused-label', fileName: 'test.cas', line: 4, column: 1, message: '未使用のラベル LOOP' },
+      { severity: 'warning', code: 'unused-label', fileName: 'test.cas', line: 6, column: 1, message: '未使用のラベル unused' },
+    ]);
+  });
+});
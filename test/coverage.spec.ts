@@ -0,0 +1,96 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { Profiler } from "../src/profiler";
+import {
+  Coverage, createCoverage, mergeCoverage, renderLcov, parseLcov, renderCoverageHtml, summarizeCoverage
+} from "../src/coverage";
+
+const PROGRAM = [
+  'MAIN\tSTART',
+  '\tIN\tBUF,LEN',
+  '\tLD\tGR1,BUF',
+  '\tCPA\tGR1,=\'Y\'',
+  '\tJZE\tYES',
+  '\tLAD\tGR2,0',
+  '\tRET',
+  'YES\tLAD\tGR2,1',
+  '\tRET',
+  'BUF\tDS\t1',
+  'LEN\tDS\t1',
+  '\tEND',
+];
+
+async function collect(input: string): Promise<Coverage> {
+  const source = parseSource(PROGRAM.join("\n"), 'answer.cas');
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  const entryAddr = compiler.compile();
+  const profiler = new Profiler();
+  const machine = new Machine(memory, new Register(), new IO(async () => input, async () => {}));
+  machine.setProfiler(profiler);
+  const result = await machine.execute(entryAddr);
+  if (result.error) {
+    throw result.error;
+  }
+  return createCoverage(profiler, memory, source, compiler.addrToSourceIndexMap(), compiler.codeLocations());
+}
+
+describe('coverage', () => {
+  it('records executed lines and branch directions', async () => {
+    const coverage = await collect('N');
+    expect(coverage.files.map(file => file.fileName)).toEqual(['answer.cas']);
+    const [file] = coverage.files;
+    expect(file.lines).toEqual([
+      { line: 2, hits: 1 }, { line: 3, hits: 1 }, { line: 4, hits: 1 }, { line: 5, hits: 1 },
+      // OSへ復帰したRETも実行した行とする
+      { line: 6, hits: 1 }, { line: 7, hits: 1 }, { line: 8, hits: 0 }, { line: 9, hits: 0 },
+    ]);
+    expect(file.branches).toEqual([
+      { line: 5, block: 0, branch: 0, hits: 0 },
+      { line: 5, block: 0, branch: 1, hits: 1 },
+    ]);
+    expect(summarizeCoverage(file)).toEqual({ linesFound: 8, linesHit: 6, branchesFound: 2, branchesHit: 1 });
+  });
+
+  it('merges several runs', async () => {
+    const merged = mergeCoverage([await collect('N'), await collect('Y'), await collect('N')]);
+    const [file] = merged.files;
+    expect(file.lines.find(line => line.line === 2)).toEqual({ line: 2, hits: 3 });
+    expect(file.lines.find(line => line.line === 8)).toEqual({ line: 8, hits: 1 });
+    expect(file.branches.map(branch => branch.hits)).toEqual([1, 2]);
+    expect(summarizeCoverage(file).linesHit).toBe(8);
+  });
+
+  it('keeps branches that never ran as unexecuted when merging', () => {
+    const unexecuted: Coverage = { files: [{ fileName: 'a.cas', lines: [{ line: 3, hits: 0 }], branches: [{ line: 3, block: 0, branch: 0, hits: null }] }] };
+    const executed: Coverage = { files: [{ fileName: 'a.cas', lines: [{ line: 3, hits: 2 }], branches: [{ line: 3, block: 0, branch: 0, hits: 2 }] }] };
+    expect(mergeCoverage([unexecuted, unexecuted]).files[0].branches[0].hits).toBeNull();
+    expect(mergeCoverage([unexecuted, executed, unexecuted]).files[0].branches[0].hits).toBe(2);
+  });
+
+  it('writes and reads LCOV', async () => {
+    const coverage = await collect('Y');
+    const lcov = renderLcov(coverage, 'kadai');
+    expect(lcov.split("\n").slice(0, 6)).toEqual([
+      'TN:kadai', 'SF:answer.cas', 'BRDA:5,0,0,1', 'BRDA:5,0,1,0', 'BRF:2', 'BRH:1'
+    ]);
+    expect(lcov).toContain("DA:6,0\nDA:7,0\nDA:8,1\nDA:9,1\nLF:8\nLH:6\nend_of_record\n");
+    expect(parseLcov(lcov)).toEqual(coverage);
+    expect(parseLcov('SF:a.cas\nBRDA:3,0,1,-\nFNF:0\nend_of_record\n').files[0].branches).toEqual([{ line: 3, block: 0, branch: 1, hits: null }]);
+    expect(() => parseLcov('SF:a.cas\nDA:x,1\n')).toThrow('不正なLCOVの行');
+  });
+
+  it('renders an HTML report with the source', async () => {
+    const coverage = await collect('N');
+    const html = renderCoverageHtml(coverage, { 'answer.cas': PROGRAM.join("\n") });
+    expect(html).toContain('<tr><td>answer.cas</td><td>75.0% (6/8)</td><td>50.0% (1/2)</td></tr>');
+    expect(html).toContain('<tr class="partial"><td>5</td><td>1</td><td>分× 続1</td><td>\tJZE\tYES</td></tr>');
+    expect(html).toContain('<tr class="missed"><td>8</td><td>0</td><td></td><td>YES\tLAD\tGR2,1</td></tr>');
+    expect(html).toContain('<tr><td>1</td><td></td><td></td><td>MAIN\tSTART</td></tr>');
+    expect(renderCoverageHtml(coverage, {})).not.toContain('<h2>');
+  });
+});
@@ -0,0 +1,198 @@
+import path from "path";
+import {
+  DebugAdapter, ResponseBody, EventBody, Breakpoint, StackTraceBody, Scope, Variable, ReadMemoryBody, EvaluateBody,
+  StoppedEventBody, OutputEventBody
+} from "../src/debug_adapter";
+import { ProtocolMessage, stringField } from "../src/message_stream";
+
+const PROGRAM_PATH = path.resolve('prog.cas');
+
+const PROGRAM = [
+  'MAIN\tSTART',
+  '\tLAD\tGR1,1',
+  '\tCALL\tDOUBLE',
+  '\tST\tGR1,RESULT',
+  '\tRET',
+  'DOUBLE\tADDA\tGR1,GR1',
+  '\tRET',
+  'RESULT\tDS\t1',
+  '\tEND',
+];
+
+// 要求を順に送り、応答とイベントを記録する
+class ScriptedClient {
+  readonly messages: ProtocolMessage[] = [];
+  private seq = 1;
+  readonly adapter: DebugAdapter;
+
+  constructor(files: { [fileName: string]: string[] }) {
+    this.adapter = new DebugAdapter(message => this.messages.push(message), (fileName) => {
+      const lines = files[fileName];
+      if (!lines) {
+        throw new Error(`ファイルがない ${fileName}`);
+      }
+      return lines.join("\n");
+    });
+  }
+
+  async request(command: string, args: ProtocolMessage = {}): Promise<ProtocolMessage> {
+    const seq = this.seq;
+    this.seq += 1;
+    await this.adapter.handle({ seq, type: 'request', command, arguments: args });
+    const response = this.messages.find(message => message.type === 'response' && message.request_seq === seq);
+    if (!response) {
+      throw new Error(`応答がない ${command}`);
+    }
+    return response;
+  }
+
+  // 応答の本体を、要求に対応する型として返す
+  async body<T extends ResponseBody>(command: string, args: ProtocolMessage = {}): Promise<T> {
+    const response = await this.request(command, args);
+    if (!response.success) {
+      throw new Error(stringField(response, 'message'));
+    }
+    return response.body as T;
+  }
+
+  events<T extends EventBody>(event: string): T[] {
+    return this.messages.filter(message => message.type === 'event' && message.event === event).map(message => message.body as T);
+  }
+
+  async stoppedLine(): Promise<number> {
+    const { stackFrames } = await this.body<StackTraceBody>('stackTrace', { threadId: 1 });
+    return stackFrames[0].line;
+  }
+}
+
+async function launch(client: ScriptedClient, args: ProtocolMessage = {}) {
+  await client.body('initialize', { adapterID: 'comet2', linesStartAt1: true });
+  await client.body('launch', { program: PROGRAM_PATH, ...args });
+}
+
+describe('DebugAdapter', () => {
+  it('stops at line breakpoints and runs to the end', async () => {
+    const client = new ScriptedClient({ [PROGRAM_PATH]: PROGRAM });
+    await launch(client);
+    expect(client.events('initialized')).toHaveLength(1);
+    const { breakpoints } = await client.body<{ breakpoints: Breakpoint[] }>('setBreakpoints', {
+      source: { path: PROGRAM_PATH }, breakpoints: [{ line: 6 }, { line: 1 }, { line: 100 }]
+    });
+    expect(breakpoints[0]).toEqual({ verified: true, line: 6 });
+    // 命令のない行は次の命令の行に動く
+    expect(breakpoints[1]).toEqual({ verified: true, line: 2 });
+    expect(breakpoints[2].verified).toBe(false);
+    await client.body('setBreakpoints', { source: { path: PROGRAM_PATH }, breakpoints: [{ line: 6 }] });
+    await client.body('configurationDone');
+    expect(client.events<StoppedEventBody>('stopped')).toEqual([expect.objectContaining({ reason: 'breakpoint', threadId: 1 })]);
+    expect(await client.stoppedLine()).toBe(6);
+    await client.body('continue', { threadId: 1 });
+    expect(client.events('exited')).toEqual([{ exitCode: 0 }]);
+    expect(client.events('terminated')).toHaveLength(1);
+    expect((await client.request('continue', { threadId: 1 })).success).toBe(false);
+  });
+
+  it('steps in, over and out with stack frames from CALL history', async () => {
+    const client = new ScriptedClient({ [PROGRAM_PATH]: PROGRAM });
+    await launch(client, { stopOnEntry: true });
+    await client.body('configurationDone');
+    expect(client.events<StoppedEventBody>('stopped')[0].reason).toBe('entry');
+    expect(await client.stoppedLine()).toBe(2);
+    await client.body('next', { threadId: 1 });
+    await client.body('stepIn', { threadId: 1 });
+    const { stackFrames } = await client.body<StackTraceBody>('stackTrace', { threadId: 1 });
+    expect(stackFrames.map(frame => [frame.name, frame.line])).toEqual([['DOUBLE', 6], ['MAIN', 3]]);
+    expect(stackFrames[0].source).toEqual({ name: 'prog.cas', path: PROGRAM_PATH });
+    await client.body('stepOut', { threadId: 1 });
+    expect(await client.stoppedLine()).toBe(4);
+    expect((await client.body<StackTraceBody>('stackTrace', { threadId: 1 })).stackFrames).toHaveLength(1);
+    await client.body('stepBack', { threadId: 1 });
+    expect(await client.stoppedLine()).toBe(7);
+    expect(client.events<StoppedEventBody>('stopped').map(item => item.reason)).toEqual(['entry', 'step', 'step', 'step', 'step']);
+  });
+
+  it('shows registers, flags and labels as variables and memory', async () => {
+    const client = new ScriptedClient({ [PROGRAM_PATH]: PROGRAM });
+    await launch(client);
+    await client.body('setBreakpoints', { source: { path: PROGRAM_PATH }, breakpoints: [{ line: 5 }] });
+    await client.body('configurationDone');
+    const { scopes } = await client.body<{ scopes: Scope[] }>('scopes', { frameId: 0 });
+    expect(scopes.map(scope => scope.name)).toEqual(['Registers', 'Flags', 'Labels']);
+    const variablesOf = async (scope: Scope) => (await client.body<{ variables: Variable[] }>('variables', { variablesReference: scope.variablesReference })).variables;
+    const registers = await variablesOf(scopes[0]);
+    expect(registers.find(item => item.name === 'GR1')).toEqual(expect.objectContaining({ value: '#0002 (2)' }));
+    const flags = await variablesOf(scopes[1]);
+    expect(flags.map(item => item.name)).toEqual(['OF', 'SF', 'ZF']);
+    const labels = await variablesOf(scopes[2]);
+    const result = labels.find(item => item.name === 'MAIN.RESULT');
+    if (!result) {
+      throw new Error('MAIN.RESULTがない');
+    }
+    expect(result.value).toBe('#0002 (2)');
+    const memory = await client.body<ReadMemoryBody>('readMemory', { memoryReference: result.memoryReference, count: 4 });
+    expect(Buffer.from(memory.data, 'base64')).toEqual(Buffer.from([0x00, 0x02, 0x00, 0x00]));
+    expect(memory.unreadableBytes).toBe(0);
+    expect((await client.body<EvaluateBody>('evaluate', { expression: 'RESULT', context: 'watch' })).result).toBe('#0002 (2)');
+    expect((await client.body<EvaluateBody>('evaluate', { expression: 'gr1', context: 'hover' })).result).toBe('#0002 (2)');
+  });
+
+  it('reads IN from the debug console and writes OUT to it', async () => {
+    const client = new ScriptedClient({
+      [PROGRAM_PATH]: [
+        'MAIN\tSTART',
+        '\tIN\tBUF,LEN',
+        '\tOUT\tBUF,LEN',
+        '\tRET',
+        'BUF\tDS\t16',
+        'LEN\tDS\t1',
+        '\tEND',
+      ]
+    });
+    await launch(client);
+    const done = client.request('configurationDone');
+    // IN命令が入力を待つまで進める
+    await new Promise(resolve => setImmediate(resolve));
+    expect(client.events('output')).toEqual([{ category: 'console', output: '入力> ' }]);
+    await client.body('evaluate', { expression: 'hello', context: 'repl' });
+    await done;
+    expect(client.events('output')[1]).toEqual({ category: 'stdout', output: "hello\n" });
+    expect(client.events('terminated')).toHaveLength(1);
+  });
+
+  it('pauses and disconnects while running a loop that never ends', async () => {
+    const client = new ScriptedClient({
+      [PROGRAM_PATH]: [
+        'MAIN\tSTART',
+        '\tCALL\tWAIT',
+        '\tRET',
+        'WAIT\tJUMP\tWAIT',
+        '\tEND',
+      ]
+    });
+    await launch(client, { stopOnEntry: true });
+    await client.body('configurationDone');
+    const next = client.request('next', { threadId: 1 });
+    // 実行の合間に次の要求を受け付ける
+    await new Promise(resolve => setImmediate(resolve));
+    await client.body('pause', { threadId: 1 });
+    await next;
+    expect(client.events<StoppedEventBody>('stopped').map(item => item.reason)).toEqual(['entry', 'pause']);
+    expect(await client.stoppedLine()).toBe(4);
+
+    const running = client.request('continue', { threadId: 1 });
+    await new Promise(resolve => setImmediate(resolve));
+    await client.body('disconnect');
+    expect((await running).success).toBe(true);
+    expect(client.events('stopped')).toHaveLength(2);
+    expect((await client.request('stackTrace', { threadId: 1 })).success).toBe(false);
+  });
+
+  it('reports assembly errors on launch', async () => {
+    const client = new ScriptedClient({ [PROGRAM_PATH]: ['MAIN\tSTART', '\tLD\tGR9,0', '\tEND'] });
+    await client.body('initialize', {});
+    const response = await client.request('launch', { program: PROGRAM_PATH });
+    expect(response.success).toBe(false);
+    expect(response.message).toBe('アセンブルエラー');
+    expect(client.events<OutputEventBody>('output')[0].category).toBe('stderr');
+  });
+});
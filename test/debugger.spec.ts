@@ -0,0 +1,124 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { Debugger } from "../src/debugger";
+import { executeDebugCommand, DebugSession } from "../src/cli/debug";
+import { createObjectFile } from "../src/object_file";
+
+function createSession(lines: string[]): DebugSession {
+  const source = parseSource(lines.join("\n"), 'test.cas');
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, source, {});
+  const entryAddr = compiler.compile();
+  const object = createObjectFile(compiler, memory, source);
+  const io = new IO(async () => null, async () => {});
+  return {
+    debugger: new Debugger(memory, register, io, entryAddr, compiler.symbols(), source, compiler.addrToSourceIndexMap()),
+    memory,
+    register,
+    object,
+    source
+  };
+}
+
+describe('debugger', () => {
+  const program = [
+    'MAIN\tSTART',
+    '\tLAD\tGR1,0',
+    '\tLAD\tGR2,1000',
+    'LOOP\tCALL\tINCR',
+    '\tSUBA\tGR2,=1',
+    '\tJNZ\tLOOP',
+    '\tST\tGR1,SUM',
+    '\tRET',
+    'INCR\tADDA\tGR1,=1',
+    '\tRET',
+    'SUM\tDS\t1',
+    '\tEND',
+  ];
+
+  it('stops at breakpoints given by label, address and source line', async () => {
+    const session = createSession(program);
+    const debug = session.debugger;
+    expect(debug.addBreakpoint('INCR')).toBe(13);
+    expect(debug.addBreakpoint('#0008')).toBe(8);
+    expect(debug.addBreakpoint('test.cas:7')).toBe(10);
+    expect(await debug.continue()).toEqual({ reason: 'breakpoint', address: 13 });
+    expect(await debug.continue()).toEqual({ reason: 'breakpoint', address: 8 });
+    debug.removeBreakpoint('INCR');
+    debug.removeBreakpoint('#0008');
+    expect(await debug.continue()).toEqual({ reason: 'breakpoint', address: 10 });
+    expect(session.register.getGRAt(1)).toBe(1000);
+    expect(await debug.continue()).toEqual({ reason: 'halted', address: 12 });
+    expect(session.memory.getValueAt(16)).toBe(1000);
+  });
+
+  it('steps over CALL and finishes subroutines', async () => {
+    const { debugger: debug, register } = createSession(program);
+    await debug.step();
+    await debug.step();
+    expect(await debug.stepOver()).toEqual({ reason: 'step', address: 6 });
+    expect(register.getGRAt(1)).toBe(1);
+    await debug.stepOver();
+    await debug.stepOver();
+    expect(await debug.step()).toEqual({ reason: 'step', address: 13 });
+    expect(await debug.finish()).toEqual({ reason: 'step', address: 6 });
+    expect(register.getGRAt(1)).toBe(2);
+  });
+
+  it('pauses a run that never stops', async () => {
+    const debug = createSession(['MAIN\tSTART', 'LOOP\tJUMP\tLOOP', '\tEND']).debugger;
+    const running = debug.continue();
+    setImmediate(() => debug.pause());
+    expect(await running).toEqual({ reason: 'pause', address: 0 });
+    expect(debug.isHalted()).toBe(false);
+  });
+
+  it('shows where a paused command stopped', async () => {
+    const session = createSession(['MAIN\tSTART', '\tCALL\tWAIT', '\tRET', 'WAIT\tJUMP\tWAIT', '\tEND']);
+    setImmediate(() => session.debugger.pause());
+    expect(await executeDebugCommand(session, 'n')).toEqual(['中断 PC: 0003 JUMP WAIT  ; 4: WAIT\tJUMP\tWAIT']);
+  });
+
+  it('steps back and runs back to the last write', async () => {
+    const { debugger: debug, register, memory } = createSession(program);
+    debug.addBreakpoint('INCR');
+    await debug.continue();
+    await debug.continue();
+    expect(register.getGRAt(1)).toBe(1);
+    expect(await debug.reverseContinue()).toEqual({ reason: 'breakpoint', address: 13 });
+    expect(register.getGRAt(1)).toBe(0);
+    expect(await debug.stepBack()).toEqual({ reason: 'step', address: 4 });
+    debug.removeBreakpoint('INCR');
+    expect(await debug.continue()).toEqual({ reason: 'halted', address: 12 });
+    expect(await debug.reverseUntilWritten('SUM')).toEqual({ reason: 'step', address: 10 });
+    expect(memory.getValueAt(16)).toBe(0);
+    expect(debug.isHalted()).toBe(false);
+  });
+
+  it('prints and changes registers, flags and memory', async () => {
+    const session = createSession(program);
+    expect(await executeDebugCommand(session, 'set GR3 #FFFF')).toEqual(['GR3: FFFF (65535, -1)']);
+    expect(await executeDebugCommand(session, 'set ZF 1')).toEqual(['OF: 0 SF: 0 ZF: 1']);
+    expect(await executeDebugCommand(session, 'set SUM 5')).toEqual(['0010: 0005']);
+    expect(await executeDebugCommand(session, 'x SUM 2')).toEqual(['0010: 0005 0001']);
+    expect(await executeDebugCommand(session, 'b LOOP')).toEqual(['ブレークポイント 0004']);
+    expect(await executeDebugCommand(session, 'c')).toEqual(['ブレークポイント PC: 0004 CALL INCR  ; 4: LOOP\tCALL\tINCR']);
+    expect(await executeDebugCommand(session, 'list')).toEqual([
+      '      1  MAIN\tSTART',
+      '      2  \tLAD\tGR1,0',
+      '      3  \tLAD\tGR2,1000',
+      '=>    4  LOOP\tCALL\tINCR',
+      '      5  \tSUBA\tGR2,=1',
+      '      6  \tJNZ\tLOOP',
+      '      7  \tST\tGR1,SUM',
+      '      8  \tRET',
+      '      9  INCR\tADDA\tGR1,=1',
+    ]);
+    expect(await executeDebugCommand(session, 'quit')).toBeNull();
+    await expect(executeDebugCommand(session, 'unknown')).rejects.toThrow('未定義のコマンド unknown');
+  });
+});
@@ -0,0 +1,49 @@
+import { Memory } from "../src/memory";
+import { Compiler } from "../src/compiler";
+import { parseSource } from "../src/utils";
+import { disassemble, symbolNamesOf, formatInstruction } from "../src/disassembler";
+
+describe('disassembler', () => {
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, parseSource([
+    'MAIN\tSTART',
+    'LOOP\tLD\tGR1,DATA,GR2',
+    '\tADDA\tGR1,GR3',
+    '\tSLA\tGR1,2',
+    '\tPOP\tGR4',
+    '\tJNZ\tLOOP',
+    '\tLAD\tGR5,0',
+    '\tRET',
+    'DATA\tDC\t#FFFF',
+    '\tEND',
+  ].join("\n")), {});
+  compiler.compile();
+
+  it('turns words back into mnemonics with symbol names', () => {
+    const lines = disassemble(memory, 0, 13, symbolNamesOf(compiler.symbols()), new Set(compiler.relocations()));
+    expect(lines.map(line => [line.address, line.label, formatInstruction(line)])).toEqual([
+      [0, 'LOOP', 'LD GR1,DATA,GR2'],
+      [2, null, 'ADDA GR1,GR3'],
+      [3, null, 'SLA GR1,2'],
+      [5, null, 'POP GR4'],
+      [6, null, 'JNZ LOOP'],
+      [8, null, 'LAD GR5,#0000'],
+      [10, null, 'RET'],
+      [11, 'DATA', 'DC #FFFF'],
+      [12, null, 'DS 2'],
+    ]);
+  });
+
+  it('prefers labels inside the module over the program name', () => {
+    expect(symbolNamesOf([
+      { name: 'MAIN', moduleName: '', address: 0 },
+      { name: 'LOOP', moduleName: 'MAIN', address: 0 },
+      { name: 'SUB', moduleName: '', address: 5 },
+    ])).toEqual({ 0: 'LOOP', 5: 'SUB' });
+  });
+
+  it('falls back to hex addresses without a symbol table', () => {
+    const lines = disassemble(memory, 6, 7);
+    expect(lines.map(formatInstruction)).toEqual(['JNZ #0000']);
+  });
+});
@@ -0,0 +1,35 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { createStateDump, renderStateDump } from "../src/dump";
+
+describe('state dump', () => {
+  const memory = new Memory();
+  const register = new Register();
+  memory.setValueAt(0x10, 0x1234);
+  memory.setValueAt(0x02, 5);
+  register.setProgramCounter(0x20);
+  register.setGRAt(3, 0xFFFF);
+  register.setFlags(0, 1, 0);
+
+  it('dumps registers and written memory words', () => {
+    const dump = createStateDump(memory, register, { registers: true, memory: true });
+    expect(dump.registers).toEqual({
+      PC: 0x20, SP: 0, OF: 0, SF: 1, ZF: 0, GR0: 0, GR1: 0, GR2: 0, GR3: 0xFFFF, GR4: 0, GR5: 0, GR6: 0, GR7: 0
+    });
+    expect(dump.memory).toEqual([{ address: 2, value: 5 }, { address: 0x10, value: 0x1234 }]);
+  });
+
+  it('omits parts that are not requested', () => {
+    expect(createStateDump(memory, register, { registers: false, memory: true }).registers).toBeUndefined();
+    expect(createStateDump(memory, register, { registers: true, memory: false }).memory).toBeUndefined();
+  });
+
+  it('renders text and JSON', () => {
+    const dump = createStateDump(memory, register, { registers: false, memory: true });
+    expect(renderStateDump(dump, 'text')).toBe("0002: 0005\n0010: 1234\n");
+    expect(JSON.parse(renderStateDump(dump, 'json'))).toEqual(dump);
+    const registers = renderStateDump(createStateDump(memory, register, { registers: true, memory: false }), 'text').split("\n");
+    expect(registers[0]).toBe(' PC: 0020');
+    expect(registers[8]).toBe('GR3: FFFF');
+  });
+});
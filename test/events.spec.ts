@@ -0,0 +1,93 @@
+import { EventEmitter } from "../src/events";
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+
+describe('EventEmitter', () => {
+  it('subscribes and unsubscribes listeners', () => {
+    const emitter = new EventEmitter<{ ping: number }>();
+    const received: number[] = [];
+    expect(emitter.hasListeners('ping')).toBe(false);
+    const unsubscribe = emitter.on('ping', value => received.push(value));
+    const listener = (value: number) => received.push(value * 10);
+    emitter.on('ping', listener);
+    expect(emitter.hasListeners('ping')).toBe(true);
+    emitter.emit('ping', 1);
+    unsubscribe();
+    emitter.emit('ping', 2);
+    emitter.off('ping', listener);
+    emitter.emit('ping', 3);
+    expect(received).toEqual([1, 10, 20]);
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+});
+
+describe('Machine events', () => {
+  function load(lines: string[]) {
+    const memory = new Memory();
+    const register = new Register();
+    const entryAddr = new Compiler(memory, 0, parseSource(lines.join("\n")), {}).compile();
+    const machine = new Machine(memory, register, new IO(async () => 'A', async () => {}));
+    return {
+      memory, register, machine, entryAddr
+    };
+  }
+
+  it('notifies fetches, register, flag and memory changes and halting', async () => {
+    const {
+      memory, register, machine, entryAddr
+    } = load([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,1',
+      '\tSUBA\tGR1,=1',
+      '\tST\tGR1,X',
+      '\tRET',
+      'X\tDC\t5',
+      '\tEND',
+    ]);
+    const events: string[] = [];
+    machine.events.on('instruction-fetched', ({ address }) => events.push(`fetch ${address}`));
+    register.events.on('register-changed', ({ name, previous, value }) => {
+      if (name !== 'PC') {
+        events.push(`${name} ${previous}->${value}`);
+      }
+    });
+    register.events.on('flag-changed', ({ name, value }) => events.push(`${name}=${value}`));
+    memory.events.on('memory-written', ({ address, previous, value }) => events.push(`[${address}] ${previous}->${value}`));
+    machine.events.on('halted', ({ programCounter, steps }) => events.push(`halted ${programCounter} ${steps}`));
+    await machine.execute(entryAddr);
+    expect(events).toEqual([
+      'fetch 0',
+      'GR1 0->1',
+      'fetch 2',
+      'GR1 1->0',
+      'ZF=1',
+      'fetch 4',
+      '[7] 5->0',
+      'halted 6 3',
+    ]);
+  });
+
+  it('notifies IO requests and errors', async () => {
+    const { machine, entryAddr } = load([
+      'MAIN\tSTART',
+      '\tIN\tBUF,LEN',
+      '\tOUT\tBUF,LEN',
+      '\tPOP\tGR1',
+      'BUF\tDS\t1',
+      'LEN\tDS\t1',
+      '\tEND',
+    ]);
+    const requests: string[] = [];
+    const errors: string[] = [];
+    machine.events.on('io-requested', ({ kind, value }) => requests.push(`${kind} ${value}`));
+    machine.events.on('error', ({ error }) => errors.push(error.message));
+    const result = await machine.execute(entryAddr);
+    expect(result.reason).toBe('runtime-error');
+    expect(requests).toEqual(['in null', 'out A']);
+    expect(errors).toEqual([(result.error as Error).message]);
+  });
+});
@@ -0,0 +1,126 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { ExecutionHistory } from "../src/history";
+
+function setup(lines: string[], input: (string | null)[] = []) {
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, parseSource(lines.join("\n")), {});
+  const entryAddr = compiler.compile();
+  const io = new IO(async () => {
+    const value = input.shift();
+    return value === undefined ? null : value;
+  }, async () => {});
+  const machine = new Machine(memory, register, io);
+  const controller = machine.executeInteractive(entryAddr);
+  return { memory, register, machine, controller };
+}
+
+describe('ExecutionHistory', () => {
+  it('drops the oldest entries over the limit', () => {
+    const history = new ExecutionHistory(2);
+    [1, 2, 3].forEach(programCounter => history.push({ programCounter, registers: [], memory: [], inputs: [] }));
+    expect(history.length()).toBe(2);
+    expect(history.pop()!.programCounter).toBe(3);
+    expect(history.pop()!.programCounter).toBe(2);
+    expect(history.pop()).toBeNull();
+  });
+});
+
+describe('Machine history', () => {
+  const program = [
+    'MAIN\tSTART',
+    '\tLAD\tGR1,0',
+    'LOOP\tADDA\tGR1,=1',
+    '\tST\tGR1,SUM',
+    '\tCALL\tSUB',
+    '\tCPA\tGR1,=10000',
+    '\tJNZ\tLOOP',
+    '\tRET',
+    'SUB\tLAD\tGR2,1',
+    '\tRET',
+    'SUM\tDS\t1',
+    '\tEND',
+  ];
+
+  it('steps back register, flag, stack and memory changes', async () => {
+    const { memory, register, machine, controller } = setup(program);
+    machine.enableHistory();
+    for (let i = 0; i < 5; i++) {
+      await controller.executeNext();
+    }
+    // CALLの後のLADまで進んでいる
+    expect(register.getProgramCounter()).toBe(15);
+    expect(register.getStackPointer()).toBe(0xFFFF);
+    expect(register.getGRAt(2)).toBe(1);
+    expect(machine.stepBack()).toBe(true);
+    expect(register.getGRAt(2)).toBe(0);
+    expect(machine.stepBack()).toBe(true);
+    expect(register.getProgramCounter()).toBe(6);
+    expect(register.getStackPointer()).toBe(0);
+    expect(memory.peekValueAt(0xFFFF)).toBeUndefined();
+    expect(machine.stepBack()).toBe(true);
+    expect(memory.getValueAt(16)).toBe(0);
+    expect(machine.stepBack()).toBe(true);
+    expect(register.getGRAt(1)).toBe(0);
+    expect(register.getSignFlag()).toBe(0);
+    expect(machine.stepBack()).toBe(true);
+    expect(machine.stepBack()).toBe(false);
+    expect(register.getProgramCounter()).toBe(0);
+  });
+
+  it('runs back to breakpoints and to the last write of an address', async () => {
+    const { memory, register, machine, controller } = setup(program);
+    machine.enableHistory();
+    while (await controller.executeNext()) {
+      // 最後まで実行する
+    }
+    expect(memory.getValueAt(16)).toBe(10000);
+    expect(machine.historyLength()).toBe(70001);
+    expect(machine.reverseUntilWritten(16)).toBe(true);
+    expect(register.getProgramCounter()).toBe(4);
+    expect(memory.getValueAt(16)).toBe(9999);
+    expect(machine.reverseContinue(new Set([13]))).toBe(true);
+    expect(register.getGRAt(1)).toBe(9999);
+    expect(machine.reverseContinue(new Set([0x1234]))).toBe(false);
+    expect(register.getProgramCounter()).toBe(0);
+  });
+
+  it('keeps only the most recent steps within the limit', async () => {
+    const { register, machine, controller } = setup(program);
+    machine.enableHistory(3);
+    for (let i = 0; i < 10; i++) {
+      await controller.executeNext();
+    }
+    expect(machine.historyLength()).toBe(3);
+    while (machine.stepBack()) {
+      // 記録が残っている分だけ戻る
+    }
+    expect(register.getProgramCounter()).toBe(10);
+  });
+
+  it('replays input read by a stepped back IN', async () => {
+    const { memory, machine, controller } = setup([
+      'MAIN\tSTART',
+      '\tIN\tBUF,LEN',
+      '\tRET',
+      'BUF\tDS\t2',
+      'LEN\tDS\t1',
+      '\tEND',
+    ], ['A', 'B']);
+    machine.enableHistory();
+    for (let i = 0; i < 5; i++) {
+      await controller.executeNext();
+    }
+    const lengthAddr = 15;
+    expect(memory.getValueAt(lengthAddr)).toBe(1);
+    expect(machine.reverseUntilWritten(lengthAddr)).toBe(true);
+    expect(memory.getValueAt(13)).toBe(0);
+    await controller.executeNext();
+    expect(memory.getValueAt(13)).toBe('A'.charCodeAt(0));
+  });
+});
@@ -0,0 +1,31 @@
+import { MACHINE_INSTRUCTION_NUMBER } from "../src/utils";
+import {
+  InstructionReference, INSTRUCTION_REFERENCES, findInstructionReference, formatEncoding, describeInstruction
+} from "../src/instruction_reference";
+
+function referenceOf(name: string): InstructionReference {
+  const reference = findInstructionReference(name);
+  if (!reference) {
+    throw new Error(`説明がない ${name}`);
+  }
+  return reference;
+}
+
+describe('instruction reference', () => {
+  it('covers every machine instruction', () => {
+    Object.keys(MACHINE_INSTRUCTION_NUMBER).forEach((name) => {
+      expect(findInstructionReference(name)).toEqual(expect.objectContaining({ kind: 'machine' }));
+    });
+    expect(INSTRUCTION_REFERENCES.filter(item => item.kind === 'machine')).toHaveLength(Object.keys(MACHINE_INSTRUCTION_NUMBER).length);
+  });
+
+  it('describes the encoding and flag effects', () => {
+    expect(formatEncoding('LD')).toBe('#14 (1語), #10 (2語)');
+    expect(formatEncoding('DC')).toBeNull();
+    const description = describeInstruction(referenceOf('ADDA'));
+    expect(description).toContain('ADDA r,adr[,x]');
+    expect(description).toContain('命令コード: #24 (1語), #20 (2語)');
+    expect(description).toContain('フラグ: OF・SF・ZFを結果に応じて設定');
+    expect(describeInstruction(referenceOf('DS'))).not.toContain('フラグ');
+  });
+});
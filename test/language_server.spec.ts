@@ -0,0 +1,156 @@
+import {
+  LanguageServer, LanguageServerResult, InitializeResult, CompletionItem, Hover, Location, DocumentSymbol, ProtocolDiagnostic, Range
+} from "../src/language_server";
+import { ProtocolMessage, objectField, arrayField, stringField, numberField } from "../src/message_stream";
+
+const URI = 'file:///work/prog.cas';
+
+const PROGRAM = [
+  'MAIN\tSTART',
+  '\tLAD\tGR1,10',
+  'LOOP\tCALL\tSUB',
+  '\tSUBA\tGR1,=1',
+  '\tJNZ\tLOOP',
+  '\tRET',
+  '\tEND',
+  'SUB\tSTART',
+  '\tLD\tGR2,COUNT',
+  '\tADDA\tGR2,=1',
+  '\tST\tGR2,COUNT',
+  '\tRET',
+  'COUNT\tDC\t0',
+  '\tEND',
+].join("\n");
+
+class ScriptedClient {
+  readonly messages: ProtocolMessage[] = [];
+  readonly server = new LanguageServer(message => this.messages.push(message));
+  private id = 1;
+
+  request(method: string, params: ProtocolMessage = {}): ProtocolMessage {
+    const id = this.id;
+    this.id += 1;
+    this.server.handle({ jsonrpc: '2.0', id, method, params });
+    const response = this.messages.find(message => message.id === id);
+    if (!response) {
+      throw new Error(`応答がない ${method}`);
+    }
+    return response;
+  }
+
+  // 応答の結果を、要求に対応する型として返す
+  result<T extends LanguageServerResult>(method: string, params: ProtocolMessage = {}): T {
+    const response = this.request(method, params);
+    if (response.error) {
+      throw new Error(stringField(objectField(response, 'error'), 'message'));
+    }
+    return response.result as T;
+  }
+
+  notify(method: string, params: ProtocolMessage = {}) {
+    this.server.handle({ jsonrpc: '2.0', method, params });
+  }
+
+  open(text: string) {
+    this.notify('textDocument/didOpen', { textDocument: { uri: URI, languageId: 'casl2', version: 1, text } });
+  }
+
+  lastDiagnostics(): ProtocolDiagnostic[] {
+    const notifications = this.messages.filter(message => message.method === 'textDocument/publishDiagnostics');
+    return arrayField(objectField(notifications[notifications.length - 1], 'params'), 'diagnostics') as ProtocolDiagnostic[];
+  }
+
+  at<T extends LanguageServerResult>(method: string, line: number, character: number, params: ProtocolMessage = {}): T {
+    return this.result<T>(method, { textDocument: { uri: URI }, position: { line, character }, ...params });
+  }
+}
+
+// 結果がnullでないことを確かめる
+function present<T>(value: T | null | undefined): T {
+  if (value === null || value === undefined) {
+    throw new Error('結果がない');
+  }
+  return value;
+}
+
+function rangeText(range: Range): string {
+  return `${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`;
+}
+
+describe('LanguageServer', () => {
+  it('publishes diagnostics when a document is opened and changed', () => {
+    const client = new ScriptedClient();
+    const { capabilities } = client.result<InitializeResult>('initialize', { capabilities: {} });
+    expect(capabilities).toEqual(expect.objectContaining({ textDocumentSync: 1, hoverProvider: true, definitionProvider: true }));
+    client.open(PROGRAM);
+    expect(client.lastDiagnostics()).toEqual([]);
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ text: ['MAIN\tSTART', '\tLDX\tGR1,0', '\tLD\tGR1,NOWHERE', '\tLD\tGR1,GR1,GR2,GR3', '\tRET', '\tEND'].join("\n") }]
+    });
+    expect(client.lastDiagnostics().map(item => [item.code, item.severity, rangeText(item.range)])).toEqual([
+      ['unknown-instruction', 1, '1:1-1:4'],
+      ['operand-count', 2, '3:1-3:3'],
+      ['undefined-label', 1, '2:8-2:15'],
+    ]);
+    client.notify('textDocument/didClose', { textDocument: { uri: URI } });
+    expect(client.lastDiagnostics()).toEqual([]);
+  });
+
+  it('completes instructions, registers and labels', () => {
+    const client = new ScriptedClient();
+    client.open(PROGRAM);
+    const labelsOf = (items: CompletionItem[]) => items.map(item => item.label);
+    const instructions = labelsOf(client.at<CompletionItem[]>('textDocument/completion', 1, 2));
+    expect(instructions).toContain('LAD');
+    expect(instructions).toContain('OUT');
+    expect(instructions).toContain('DC');
+    expect(client.at('textDocument/completion', 2, 2)).toEqual([]);
+    // MAINの中ではMAINのラベルとプログラム名を候補にする
+    const operands = labelsOf(client.at<CompletionItem[]>('textDocument/completion', 4, 5));
+    expect(operands).toEqual(expect.arrayContaining(['GR0', 'GR7', 'LOOP', 'MAIN', 'SUB']));
+    expect(operands).not.toContain('COUNT');
+    expect(labelsOf(client.at<CompletionItem[]>('textDocument/completion', 8, 8))).toContain('COUNT');
+  });
+
+  it('shows instruction docs on hover', () => {
+    const client = new ScriptedClient();
+    client.open(PROGRAM);
+    const hover = present(client.at<Hover | null>('textDocument/hover', 3, 2));
+    expect(hover.contents.value).toContain('**SUBA** 算術減算');
+    expect(hover.contents.value).toContain('命令コード: #25 (1語), #21 (2語)');
+    expect(rangeText(hover.range)).toBe('3:1-3:5');
+    expect(present(client.at<Hover | null>('textDocument/hover', 4, 6)).contents.value).toBe('**LOOP** MAIN #0002');
+    expect(client.at('textDocument/hover', 1, 10)).toBeNull();
+  });
+
+  it('finds definitions and references of labels', () => {
+    const client = new ScriptedClient();
+    client.open(PROGRAM);
+    expect(rangeText(present(client.at<Location | null>('textDocument/definition', 4, 6)).range)).toBe('2:0-2:4');
+    // 他のモジュールから呼ぶプログラム名はSTARTの行に定義がある
+    expect(rangeText(present(client.at<Location | null>('textDocument/definition', 2, 10)).range)).toBe('7:0-7:3');
+    const references = client.at<Location[]>('textDocument/references', 12, 1, { context: { includeDeclaration: true } });
+    expect(references.map(item => rangeText(item.range))).toEqual(['12:0-12:5', '8:8-8:13', '10:8-10:13']);
+    expect(client.at<Location[]>('textDocument/references', 12, 1, { context: { includeDeclaration: false } })).toHaveLength(2);
+    expect(client.at('textDocument/definition', 1, 9)).toBeNull();
+  });
+
+  it('lists START blocks as document symbols', () => {
+    const client = new ScriptedClient();
+    client.open(PROGRAM);
+    const symbols = client.result<DocumentSymbol[]>('textDocument/documentSymbol', { textDocument: { uri: URI } });
+    expect(symbols.map(item => [item.name, rangeText(item.range)])).toEqual([['MAIN', '0:0-6:4'], ['SUB', '7:0-13:4']]);
+    expect(present(symbols[0].children).map(item => [item.name, item.kind])).toEqual([['LOOP', 12]]);
+    expect(present(symbols[1].children).map(item => [item.name, item.kind])).toEqual([['COUNT', 13]]);
+  });
+
+  it('answers shutdown and unknown requests', () => {
+    const client = new ScriptedClient();
+    expect(numberField(objectField(client.request('workspace/unknown'), 'error'), 'code')).toBe(-32601);
+    expect(client.server.exitCode()).toBeNull();
+    expect(client.result('shutdown')).toBeNull();
+    client.notify('exit');
+    expect(client.server.exitCode()).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { Memory } from "../src/memory";
+import { Compiler } from "../src/compiler";
+import { parseSource } from "../src/utils";
+import { createListing, renderListingText, renderListingHtml } from "../src/listing";
+
+describe('listing', () => {
+  const source = parseSource([
+    'MAIN\tSTART\tBEGIN',
+    '; 注釈',
+    'BEGIN\tLD\tGR1,=1',
+    '\tADDA\tGR1,DATA',
+    '\tST\tGR1,DATA',
+    '\tRET',
+    'DATA\tDC\t\'AB\',3',
+    'BUF\tDS\t2',
+    '\tEND',
+  ].join("\n"));
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  compiler.compile();
+  const listing = createListing(compiler, memory, source);
+
+  it('lists the location counter and words of each line with its literals', () => {
+    expect(listing.lines.map(line => [line.position && line.position.line, line.address, line.words, line.text])).toEqual([
+      [1, 0, [], 'MAIN\tSTART\tBEGIN'],
+      [2, null, [], '; 注釈'],
+      [3, 0, [0x1010, 12], 'BEGIN\tLD\tGR1,=1'],
+      [4, 2, [0x2010, 7], '\tADDA\tGR1,DATA'],
+      [5, 4, [0x1110, 7], '\tST\tGR1,DATA'],
+      [6, 6, [0x8100], '\tRET'],
+      [7, 7, [0x41, 0x42, 3], 'DATA\tDC\t\'AB\',3'],
+      [8, 10, [], 'BUF\tDS\t2'],
+      [9, 12, [], '\tEND'],
+      [null, 12, [1], '=1'],
+    ]);
+    expect(listing.lines[9].literalOf).toEqual({ fileName: null, line: 3 });
+  });
+
+  it('cross-references definitions and uses of symbols', () => {
+    expect(listing.crossReferences.map(item => [item.name, item.address, item.definition.line, item.uses.map(use => use.line)])).toEqual([
+      ['BEGIN', 0, 3, [1]],
+      ['BUF', 10, 8, []],
+      ['DATA', 7, 7, [4, 5]],
+      ['MAIN', 0, 1, []],
+    ]);
+  });
+
+  it('renders plain text and HTML', () => {
+    const text = renderListingText(listing);
+    expect(text).toContain('    3  0000  1010 000C  BEGIN\tLD\tGR1,=1');
+    expect(text).toContain('    7  0007  0041 0042  DATA\tDC\t\'AB\',3');
+    expect(text).toContain('       0009  0003');
+    expect(text).toContain('       000C  0001       =1  ; 3行目');
+    expect(text).toContain('DATA      MAIN      0007  7        4 5');
+    const html = renderListingHtml(listing);
+    expect(html).toContain('<td>DATA\tDC\t\'AB\',3</td>');
+    expect(html).toContain('<tr class="literal">');
+  });
+});
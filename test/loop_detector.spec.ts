@@ -0,0 +1,39 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { LoopDetector } from "../src/loop_detector";
+
+describe('LoopDetector', () => {
+  it('finds a state that repeats with a period', () => {
+    const memory = new Memory();
+    const register = new Register();
+    const detector = new LoopDetector(memory, register);
+    const found: number[] = [];
+    for (let step = 0; step < 50 && found.length === 0; step += 1) {
+      if (detector.check()) {
+        found.push(step);
+      }
+      register.setProgramCounter((register.getProgramCounter() + 1) % 3);
+    }
+    expect(found.length).toBe(1);
+  });
+
+  it('compares memory as part of the state', () => {
+    const memory = new Memory();
+    const register = new Register();
+    const detector = new LoopDetector(memory, register);
+    memory.setWriteListener((address, previous, value) => detector.notifyWrite(address, previous, value));
+    // レジスタは変わらずメモリだけが増え続ける
+    for (let step = 0; step < 200; step += 1) {
+      expect(detector.check()).toBe(false);
+      memory.setValueAt(0x100, step + 1);
+    }
+  });
+
+  it('forgets saved states on reset', () => {
+    const detector = new LoopDetector(new Memory(), new Register());
+    expect(detector.check()).toBe(false);
+    detector.reset();
+    expect(detector.check()).toBe(false);
+    expect(detector.check()).toBe(true);
+  });
+});
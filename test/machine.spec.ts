@@ -0,0 +1,372 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { RuntimeError } from "../src/errors";
+
+async function run(lines: string[], input: (string | null)[] = [], output: string[] = []): Promise<Register> {
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, parseSource(lines.join("\n")), {});
+  const entryAddr = compiler.compile();
+  expect(compiler.diagnostics().filter(diagnostic => diagnostic.severity === 'error')).toEqual([]);
+  const io = new IO(async () => {
+    const value = input.shift();
+    return value === undefined ? null : value;
+  }, async (value: string) => {
+    output.push(value);
+  });
+  const result = await new Machine(memory, register, io).execute(entryAddr);
+  if (result.error) {
+    throw result.error;
+  }
+  return register;
+}
+
+describe('Machine', () => {
+  it('executes logical instructions', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,#00F0',
+      '\tLAD\tGR2,#0FF0',
+      '\tOR\tGR1,GR2',
+      '\tXOR\tGR1,=#0F00',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(0x00F0);
+    expect(register.getZeroFlag()).toBe(0);
+  });
+
+  it('sets OF to the last bit shifted out', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,#8001',
+      '\tSRL\tGR1,1',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(0x4000);
+    expect(register.getOverflowFlag()).toBe(1);
+  });
+
+  it('keeps the sign bit on SLA and SRA', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,#C001',
+      '\tSLA\tGR1,1',
+      '\tLAD\tGR2,#8000',
+      '\tSRA\tGR2,2',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(0x8002);
+    expect(register.getOverflowFlag()).toBe(0);
+    expect(register.getGRAt(2)).toBe(0xE000);
+    expect(register.getSignFlag()).toBe(1);
+  });
+
+  it('keeps GRs within 16 bits and sets OF on signed overflow', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,1',
+      '\tSUBA\tGR1,=2',
+      '\tLAD\tGR2,#7FFF',
+      '\tADDA\tGR2,=1',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(0xFFFF);
+    expect(register.getGRAt(2)).toBe(0x8000);
+    expect(register.getOverflowFlag()).toBe(1);
+    expect(register.getSignFlag()).toBe(1);
+  });
+
+  it('sets OF on unsigned carry with ADDL', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,#FFFF',
+      '\tADDL\tGR1,=1',
+      '\tJOV\tOVER',
+      '\tLAD\tGR2,1',
+      'OVER\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(0);
+    expect(register.getGRAt(2)).toBe(0);
+    expect(register.getZeroFlag()).toBe(1);
+  });
+
+  it('compares as unsigned with CPL', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,#FFFF',
+      '\tLAD\tGR2,1',
+      '\tCPL\tGR1,GR2',
+      '\tJNZ\tSKIP',
+      '\tLAD\tGR3,1',
+      'SKIP\tNOP',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(3)).toBe(0);
+    expect(register.getSignFlag()).toBe(0);
+  });
+
+  it('returns from subroutines through the stack', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,3',
+      '\tPUSH\t5',
+      '\tCALL\tDOUBLE',
+      '\tPOP\tGR2',
+      '\tRET',
+      'DOUBLE\tADDA\tGR1,GR1',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(1)).toBe(6);
+    expect(register.getGRAt(2)).toBe(5);
+    expect(register.getStackPointer()).toBe(0);
+  });
+
+  it('detects stack overflow into the program', async () => {
+    await expect(run([
+      'MAIN\tSTART',
+      'LOOP\tCALL\tLOOP',
+      '\tEND',
+    ])).rejects.toThrow('スタックオーバーフロー');
+  });
+
+  it('detects stack overflow into a DS area at the end of the program', async () => {
+    const memory = new Memory();
+    const register = new Register();
+    const compiler = new Compiler(memory, 0, parseSource([
+      'MAIN\tSTART',
+      'LOOP\tCALL\tLOOP',
+      'BUF\tDS\t300',
+      '\tEND',
+    ].join("\n")), {});
+    const entryAddr = compiler.compile();
+    expect(compiler.endAddr()).toBe(302);
+    const result = await new Machine(memory, register, new IO(async () => null, async () => {})).execute(entryAddr);
+    expect(result.error).toEqual(new RuntimeError('スタックオーバーフロー', 0));
+    expect(register.getStackPointer()).toBe(302);
+    expect(memory.dump().filter(([address]) => address >= 2 && address < 302)).toEqual([]);
+  });
+
+  it('keeps the stack limit when running the same program again', async () => {
+    const memory = new Memory();
+    const register = new Register();
+    const entryAddr = new Compiler(memory, 0, parseSource([
+      'PGM\tSTART',
+      '\tCALL\tSUB',
+      '\tRET',
+      'SUB\tRET',
+      '\tEND',
+    ].join("\n")), {}).compile();
+    const machine = new Machine(memory, register, new IO(async () => null, async () => {}));
+    expect((await machine.execute(entryAddr)).reason).toBe('halted');
+    // 前の実行でスタックに積んだ語はプログラムの領域に数えない
+    expect(memory.isInitialized(0xFFFF)).toBe(true);
+    expect(memory.allocatedEndAddress()).toBe(4);
+    expect((await machine.execute(entryAddr)).reason).toBe('halted');
+    const controller = machine.executeInteractive(entryAddr);
+    while (await controller.executeNext()) {
+      // 1命令ずつ進める
+    }
+    expect(machine.stepCount()).toBe(2);
+  });
+
+  it('echoes input with IN and OUT keeping registers', async () => {
+    const output: string[] = [];
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,7',
+      '\tIN\tBUF,LEN',
+      '\tOUT\tBUF,LEN',
+      '\tIN\tBUF,LEN',
+      '\tLD\tGR2,LEN',
+      '\tRET',
+      'BUF\tDS\t256',
+      'LEN\tDS\t1',
+      '\tEND',
+    ], ['x'.repeat(300)], output);
+    expect(output).toEqual(['x'.repeat(256)]);
+    expect(register.getGRAt(1)).toBe(7);
+    // EOFでは長さに-1が入る
+    expect(register.getGRAt(2)).toBe(0xFFFF);
+  });
+
+  it('fails OUT with the length that IN set at EOF', async () => {
+    const output: string[] = [];
+    await expect(run([
+      'MAIN\tSTART',
+      '\tIN\tBUF,LEN',
+      '\tOUT\tBUF,LEN',
+      '\tRET',
+      'BUF\tDS\t256',
+      'LEN\tDS\t1',
+      '\tEND',
+    ], [], output)).rejects.toEqual(new RuntimeError('不正な出力の長さ -1', 0x14));
+    expect(output).toEqual([]);
+  });
+
+  it('saves and restores GR1-GR7 with RPUSH and RPOP', async () => {
+    const register = await run([
+      'MAIN\tSTART',
+      '\tLAD\tGR3,3',
+      '\tLAD\tGR7,7',
+      '\tRPUSH',
+      '\tLAD\tGR3,0',
+      '\tLAD\tGR7,0',
+      '\tRPOP',
+      '\tRET',
+      '\tEND',
+    ]);
+    expect(register.getGRAt(3)).toBe(3);
+    expect(register.getGRAt(7)).toBe(7);
+  });
+
+  it('reaches the same state and step count as the step-by-step API', async () => {
+    const source = parseSource([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,0',
+      'LOOP\tLAD\tGR1,1,GR1',
+      '\tST\tGR1,DATA,GR1',
+      '\tOUT\tMSG,LEN',
+      '\tCPA\tGR1,=3',
+      '\tJMI\tLOOP',
+      '\tRET',
+      'MSG\tDC\t\'OK\'',
+      'LEN\tDC\t2',
+      'DATA\tDS\t4',
+      '\tEND',
+    ].join("\n"));
+    const runWith = async (interactive: boolean) => {
+      const memory = new Memory();
+      const register = new Register();
+      const output: string[] = [];
+      const entryAddr = new Compiler(memory, 0, source, {}).compile();
+      const machine = new Machine(memory, register, new IO(async () => null, async (value: string) => {
+        output.push(value);
+      }));
+      if (interactive) {
+        const controller = machine.executeInteractive(entryAddr);
+        while (await controller.executeNext()) {
+          // 1命令ずつ進める
+        }
+      } else {
+        await machine.execute(entryAddr);
+      }
+      return { memory: memory.dump(), register: register.toString(), output, steps: machine.stepCount() };
+    };
+    const fast = await runWith(false);
+    expect(fast).toEqual(await runWith(true));
+    expect(fast.output).toEqual(['OK', 'OK', 'OK']);
+    // OUTは7命令に展開され、OSへ復帰するRETは数えない
+    expect(fast.steps).toBe(1 + 3 * (4 + 7));
+  });
+
+  it('decodes instructions again after the program rewrites them', async () => {
+    const memory = new Memory();
+    const register = new Register();
+    const entryAddr = new Compiler(memory, 0, parseSource([
+      'MAIN\tSTART',
+      // 0番地から置くので、1番地がこの命令の2語目になる
+      'LOOP\tLAD\tGR1,1,GR1',
+      '\tLAD\tGR2,1,GR2',
+      '\tLD\tGR3,=100',
+      '\tST\tGR3,1',
+      '\tCPA\tGR2,=2',
+      '\tJMI\tLOOP',
+      '\tRET',
+      '\tEND',
+    ].join("\n")), {}).compile();
+    const machine = new Machine(memory, register, new IO(async () => null, async () => {}));
+    await machine.execute(entryAddr);
+    expect(register.getGRAt(1)).toBe(101);
+    // 実行の外で読み込んだ値も使う
+    [1, 2].forEach(index => register.setGRAt(index, 0));
+    memory.loadRange(1, [7]);
+    await machine.execute(entryAddr);
+    expect(register.getGRAt(1)).toBe(107);
+  });
+
+  describe('execution limits', () => {
+    const load = (lines: string[], input: () => Promise<string | null> = async () => null) => {
+      const memory = new Memory();
+      const entryAddr = new Compiler(memory, 0, parseSource(lines.join("\n")), {}).compile();
+      return { machine: new Machine(memory, new Register(), new IO(input, async () => {})), entryAddr };
+    };
+    const counter = ['MAIN\tSTART', 'LOOP\tLAD\tGR1,1,GR1', '\tJUMP\tLOOP', '\tEND'];
+
+    it('stops after maxSteps instructions', async () => {
+      const { machine, entryAddr } = load(counter);
+      expect(await machine.execute(entryAddr, { maxSteps: 100 })).toEqual({
+        reason: 'step-limit', programCounter: 0, steps: 100, error: null
+      });
+      expect(machine.stepCount()).toBe(100);
+      // OSへの復帰は数えないので、上限ちょうどで終わるプログラムは正常終了になる
+      const finished = load(['MAIN\tSTART', '\tNOP', '\tRET', '\tEND']);
+      expect(await finished.machine.execute(finished.entryAddr, { maxSteps: 1 })).toEqual({
+        reason: 'halted', programCounter: 1, steps: 1, error: null
+      });
+    });
+
+    it('reports runtime errors with the address of the instruction', async () => {
+      const { machine, entryAddr } = load(['MAIN\tSTART', '\tNOP', '\tPOP\tGR1', '\tEND']);
+      const result = await machine.execute(entryAddr);
+      expect(result.reason).toBe('runtime-error');
+      expect(result.programCounter).toBe(1);
+      expect(result.error).toEqual(new RuntimeError('スタックアンダーフロー', 1));
+    });
+
+    it('reports input that is not ASCII as a runtime error of the SVC', async () => {
+      const { machine, entryAddr } = load(['MAIN\tSTART', '\tIN\tBUF,LEN', '\tRET', 'BUF\tDS\t1', 'LEN\tDS\t1', '\tEND'], async () => 'あ');
+      expect(await machine.execute(entryAddr)).toEqual({
+        reason: 'runtime-error', programCounter: 8, steps: 4, error: new RuntimeError('不正な入力 あ', 8)
+      });
+    });
+
+    it('stops on timeout while running and while waiting for input', async () => {
+      const running = load(counter);
+      const result = await running.machine.execute(running.entryAddr, { timeout: 20 });
+      expect(result.reason).toBe('timeout');
+      expect(result.steps).toBeGreaterThan(0);
+      const waiting = load(['MAIN\tSTART', '\tIN\tBUF,LEN', '\tRET', 'BUF\tDS\t1', 'LEN\tDS\t1', '\tEND'], () => new Promise(() => {}));
+      expect(await waiting.machine.execute(waiting.entryAddr, { timeout: 20 })).toEqual({
+        // INを展開した命令のうちSVCで止まる
+        reason: 'timeout', programCounter: 8, steps: 4, error: null
+      });
+    });
+
+    it('stops when the signal is aborted', async () => {
+      const { machine, entryAddr } = load(counter);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+      expect((await machine.execute(entryAddr, { signal: controller.signal })).reason).toBe('aborted');
+      expect((await machine.execute(entryAddr, { signal: controller.signal })).steps).toBe(0);
+    });
+
+    it('detects reaching the same state twice', async () => {
+      const { machine, entryAddr } = load([
+        'MAIN\tSTART',
+        '\tLAD\tGR1,0',
+        'LOOP\tST\tGR1,FLAG',
+        '\tXOR\tGR1,=1',
+        '\tJUMP\tLOOP',
+        'FLAG\tDS\t1',
+        '\tEND',
+      ]);
+      const result = await machine.execute(entryAddr, { detectLoop: true });
+      expect(result.reason).toBe('infinite-loop');
+      expect(result.steps).toBeLessThan(100);
+      // 状態が変わり続けるループは上限まで実行する
+      const counting = load(counter);
+      expect((await counting.machine.execute(counting.entryAddr, { detectLoop: true, maxSteps: 1000 })).reason).toBe('step-limit');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Memory, MemoryAccessError } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { RuntimeError } from "../src/errors";
+
+async function runStrict(lines: string[]): Promise<void> {
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, parseSource(lines.join("\n")), {});
+  const entryAddr = compiler.compile();
+  memory.setStrictMode(true);
+  compiler.codeLocations().forEach(({ address, size }) => memory.protect(address, size));
+  const result = await new Machine(memory, new Register(), new IO(async () => null, async () => {})).execute(entryAddr);
+  if (result.error) {
+    throw result.error;
+  }
+}
+
+describe('Memory', () => {
+  it('wraps addresses to 16 bits and rejects non-integer addresses', () => {
+    const memory = new Memory();
+    memory.setValueAt(0x10005, -1);
+    expect(memory.getValueAt(5)).toBe(0xFFFF);
+    expect(memory.getValueAt(-0x10000 + 5)).toBe(0xFFFF);
+    expect(() => memory.getValueAt(1.5)).toThrow('不正な番地 1.5');
+  });
+
+  it('reads zero from unwritten words unless strict', () => {
+    const memory = new Memory();
+    expect(memory.getValueAt(10)).toBe(0);
+    expect(memory.peekValueAt(10)).toBeUndefined();
+    memory.setStrictMode(true);
+    expect(() => memory.getValueAt(10)).toThrow(MemoryAccessError);
+    memory.setValueAt(10, 1);
+    expect(memory.getValueAt(10)).toBe(1);
+  });
+
+  it('rejects writes to protected words', () => {
+    const memory = new Memory();
+    memory.setValueAt(3, 1);
+    memory.protect(2, 2);
+    expect(() => memory.setValueAt(3, 2)).toThrow('書き込み禁止の番地への書き込み #0003');
+    memory.setValueAt(4, 2);
+    memory.unprotectAll();
+    memory.setValueAt(3, 2);
+    expect(memory.getValueAt(3)).toBe(2);
+  });
+
+  it('dumps and loads ranges in bulk', () => {
+    const memory = new Memory();
+    memory.loadRange(0xFFFE, [1, 2, 3]);
+    expect(Array.from(memory.dumpRange(0xFFFD, 4))).toEqual([0, 1, 2, 3]);
+    expect(memory.dump()).toEqual([[0, 3], [0xFFFE, 1], [0xFFFF, 2]]);
+    memory.loadRange(100, new Uint16Array([7, 8]));
+    expect(Array.from(memory.dumpRange(100, 2))).toEqual([7, 8]);
+  });
+
+  it('reports reads of unset DS areas as runtime errors in strict mode', async () => {
+    const program = [
+      'MAIN\tSTART',
+      '\tLD\tGR1,DATA',
+      '\tRET',
+      'DATA\tDS\t1',
+      '\tEND',
+    ];
+    await expect(runStrict(program)).rejects.toThrow(new RuntimeError('未初期化の番地の読み出し #0003', 0));
+  });
+
+  it('traps writes into the program text in strict mode', async () => {
+    await expect(runStrict([
+      'MAIN\tSTART',
+      '\tLAD\tGR1,1',
+      '\tST\tGR1,MAIN',
+      '\tRET',
+      '\tEND',
+    ])).rejects.toThrow('書き込み禁止の番地への書き込み #0000 at #0002');
+  });
+});
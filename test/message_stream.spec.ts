@@ -0,0 +1,33 @@
+import { PassThrough } from "stream";
+import { encodeMessage, MessageReader, serveMessages } from "../src/message_stream";
+
+describe('message stream', () => {
+  it('counts Content-Length in bytes', () => {
+    const encoded = encodeMessage({ text: '入力' });
+    expect(encoded.toString('utf-8')).toBe('Content-Length: 17\r\n\r\n{"text":"入力"}');
+  });
+
+  it('reads messages split across chunks', () => {
+    const reader = new MessageReader();
+    const bytes = Buffer.concat([encodeMessage({ seq: 1, text: '出力' }), encodeMessage({ seq: 2 })]);
+    const messages = [];
+    for (let i = 0; i < bytes.length; i += 7) {
+      messages.push(...reader.push(bytes.slice(i, i + 7)));
+    }
+    expect(messages).toEqual([{ seq: 1, text: '出力' }, { seq: 2 }]);
+  });
+
+  it('rejects a header without Content-Length', () => {
+    expect(() => new MessageReader().push('Content-Type: json\r\n\r\n{}')).toThrow('Content-Lengthがない');
+  });
+
+  it('serves messages until the input ends', async () => {
+    const input = new PassThrough();
+    const received: unknown[] = [];
+    const served = serveMessages(input, message => received.push(message.seq));
+    input.write(encodeMessage({ seq: 1 }));
+    input.end(encodeMessage({ seq: 2 }));
+    await served;
+    expect(received).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,62 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { parseSource } from "../src/utils";
+import { createObjectFile, serializeObjectFile, parseObjectFile, loadObjectFile } from "../src/object_file";
+
+describe('object file', () => {
+  const source = parseSource([
+    'MAIN\tSTART\tBEGIN',
+    'DATA\tDC\t3',
+    'BEGIN\tLD\tGR1,DATA',
+    '\tADDA\tGR1,=1',
+    '\tRET',
+    '\tEND',
+  ].join("\n"), 'main.cas');
+  const memory = new Memory();
+  const compiler = new Compiler(memory, 0, source, {});
+  compiler.compile();
+  const object = parseObjectFile(serializeObjectFile(createObjectFile(compiler, memory, source)));
+
+  it('keeps the words, entry point, symbols and source map', () => {
+    expect(object.entry).toBe(1);
+    expect(object.segments).toEqual([{ address: 0, words: [3, 0x1010, 0, 0x2010, 6, 0x8100, 1] }]);
+    expect(object.symbols).toContainEqual({ name: 'MAIN', moduleName: '', address: 1 });
+    expect(object.symbols).toContainEqual({ name: 'DATA', moduleName: 'MAIN', address: 0 });
+    expect(object.relocations).toEqual([2, 4]);
+    expect(object.sourceMap).toContainEqual({ address: 3, fileName: 'main.cas', line: 4 });
+    expect(object.code).toEqual([{ address: 1, size: 5 }]);
+    expect(object.end).toBe(7);
+  });
+
+  it('keeps DS areas at the end of the program as allocated', () => {
+    const dsSource = parseSource(['MAIN\tSTART', '\tRET', 'BUF\tDS\t10', '\tEND'].join("\n"));
+    const dsMemory = new Memory();
+    const dsCompiler = new Compiler(dsMemory, 0, dsSource, {});
+    dsCompiler.compile();
+    const dsObject = parseObjectFile(serializeObjectFile(createObjectFile(dsCompiler, dsMemory, dsSource)));
+    expect(dsObject.end).toBe(11);
+    const loadedMemory = new Memory();
+    loadObjectFile(dsObject, loadedMemory, new Register(), 0x100);
+    expect(loadedMemory.allocatedEndAddress()).toBe(0x10B);
+    // endのないオブジェクトファイルは書き込む語のある区間までとする
+    const legacyMemory = new Memory();
+    loadObjectFile({ ...dsObject, end: undefined }, legacyMemory, new Register(), 0x100);
+    expect(legacyMemory.allocatedEndAddress()).toBe(0x101);
+  });
+
+  it('relocates address words when loaded at an offset', () => {
+    const loadedMemory = new Memory();
+    const register = new Register();
+    const entryAddr = loadObjectFile(object, loadedMemory, register, 0x100);
+    expect(entryAddr).toBe(0x101);
+    expect(register.getProgramCounter()).toBe(0x101);
+    expect(loadedMemory.getValueAt(0x102)).toBe(0x100);
+    expect(loadedMemory.getValueAt(0x104)).toBe(0x106);
+    expect(loadedMemory.getValueAt(0x100)).toBe(3);
+  });
+
+  it('rejects files in another format', () => {
+    expect(() => parseObjectFile('{"format":"other"}')).toThrow('不正なオブジェクトファイル');
+  });
+});
@@ -0,0 +1,108 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { Profiler, createProfile, renderProfileReport, renderAnnotatedSource } from "../src/profiler";
+
+async function profile(lines: string[]) {
+  const source = parseSource(lines.join("\n"), 'prog.cas');
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, source, {});
+  const entryAddr = compiler.compile();
+  const machine = new Machine(memory, register, new IO(async () => null, async () => {}));
+  const profiler = new Profiler();
+  machine.setProfiler(profiler);
+  const result = await machine.execute(entryAddr);
+  if (result.error) {
+    throw result.error;
+  }
+  return {
+    profiler,
+    source,
+    steps: result.steps,
+    profile: createProfile(profiler, compiler.addrToSourceIndexMap(), compiler.codeLocations())
+  };
+}
+
+describe('Profiler', () => {
+  const program = [
+    'MAIN\tSTART',
+    '\tLAD\tGR1,3',
+    'LOOP\tSUBA\tGR1,=1',
+    '\tJZE\tFIN',
+    '\tJUMP\tLOOP',
+    'FIN\tST\tGR1,ZERO',
+    '\tRET',
+    'ZERO\tDS\t1',
+    '\tEND',
+  ];
+
+  it('counts executions per address and instruction', async () => {
+    const { profiler, steps } = await profile(program);
+    expect(profiler.steps()).toBe(steps);
+    expect(profiler.addressProfiles().map(({ address, steps: count }) => [address, count])).toEqual([
+      [0, 1], [2, 3], [4, 3], [6, 2], [8, 1]
+    ]);
+    expect(profiler.instructionProfiles().map(({ mnemonic, steps: count }) => [mnemonic, count])).toEqual([
+      ['JZE', 3], ['SUBA', 3], ['JUMP', 2], ['LAD', 1], ['ST', 1]
+    ]);
+    expect(profiler.kindProfiles()).toEqual([
+      { kind: 'jump', steps: 5, cycles: 10 },
+      { kind: 'arithmetic', steps: 3, cycles: 6 },
+      { kind: 'load', steps: 2, cycles: 4 },
+    ]);
+    expect(profiler.cycles()).toBe(20);
+  });
+
+  it('counts taken and not-taken conditional branches', async () => {
+    const { profiler } = await profile(program);
+    expect(profiler.branchProfiles()).toEqual([{ address: 4, mnemonic: 'JZE', taken: 1, notTaken: 2 }]);
+  });
+
+  it('attributes counts to source lines', async () => {
+    const { profile: result, source } = await profile(program);
+    expect(result.lines.map(line => [source[line.sourceIndex].lineNumber, line.steps])).toEqual([
+      [2, 1], [3, 3], [4, 3], [5, 2], [6, 1], [7, 0]
+    ]);
+    expect(result.lines.find(line => line.sourceIndex === 3)?.branch).toEqual({ taken: 1, notTaken: 2 });
+    expect(result.unattributedSteps).toBe(0);
+  });
+
+  it('renders a ranked report and an annotated source', async () => {
+    const { profile: result, source } = await profile(program);
+    const report = renderProfileReport(result, source, 2).split("\n");
+    expect(report[0]).toBe('STEPS 10  CYCLES 20');
+    expect(report[3]).toBe('   1           3   30.0           6  prog.cas:3  LOOP\tSUBA\tGR1,=1');
+    expect(report[4]).toBe('   2           3   30.0           6  prog.cas:4  JZE\tFIN');
+    expect(report[5]).toBe('');
+    expect(report).toContain('0004  JZE             1           2');
+    expect(renderAnnotatedSource(result, source).split("\n")).toEqual([
+      '     STEPS      CYCLES  SOURCE',
+      '                        MAIN\tSTART',
+      '         1           2  \tLAD\tGR1,3',
+      '         3           6  LOOP\tSUBA\tGR1,=1',
+      '         3           6  \tJZE\tFIN  ; 分岐 1回 / 非分岐 2回',
+      '         2           4  \tJUMP\tLOOP',
+      '         1           2  FIN\tST\tGR1,ZERO',
+      '         0           0  \tRET',
+      '                        ZERO\tDS\t1',
+      '                        \tEND',
+      '',
+    ]);
+  });
+
+  it('counts IN and OUT as SVC calls', async () => {
+    const { profiler } = await profile([
+      'MAIN\tSTART',
+      '\tOUT\tMSG,LEN',
+      '\tRET',
+      'MSG\tDC\t\'HI\'',
+      'LEN\tDC\t2',
+      '\tEND',
+    ]);
+    expect(profiler.instructionProfiles().find(item => item.mnemonic === 'SVC')).toEqual({ mnemonic: 'SVC', kind: 'svc', steps: 1, cycles: 10 });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runCommand, EXIT_CODE } from "../src/cli/run";
+
+// jsdomではなくNode.jsの環境で、CLIのrunを実行する
+describe('run command', () => {
+  let directory: string;
+  let stdout: string[];
+
+  const writeFile = (fileName: string, lines: string[]): string => {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, `${lines.join("\n")}\n`);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'comet2-run-'));
+    stdout = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((value: string | Uint8Array) => {
+      stdout.push(value.toString());
+      return true;
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.readdirSync(directory).forEach(fileName => fs.unlinkSync(path.join(directory, fileName)));
+    fs.rmdirSync(directory);
+  });
+
+  it('writes only the program output to stdout', async () => {
+    const program = writeFile('echo.cas', [
+      'MAIN\tSTART',
+      '\tIN\tBUF,LEN',
+      '\tOUT\tBUF,LEN',
+      '\tRET',
+      'BUF\tDS\t256',
+      'LEN\tDS\t1',
+      '\tEND',
+    ]);
+    const input = writeFile('input.txt', ['hello']);
+    expect(await runCommand([program, '--input', input])).toBe(EXIT_CODE.SUCCESS);
+    expect(stdout).toEqual(["hello\n"]);
+  });
+
+  it('stops on Ctrl-C without AbortController', async () => {
+    const globals = global as { AbortController?: unknown };
+    const original = globals.AbortController;
+    delete globals.AbortController;
+    try {
+      const program = writeFile('loop.cas', ['MAIN\tSTART', 'LOOP\tJUMP\tLOOP', '\tEND']);
+      const input = writeFile('input.txt', []);
+      setTimeout(() => process.emit('SIGINT', 'SIGINT'), 20);
+      expect(await runCommand([program, '--input', input])).toBe(EXIT_CODE.ABORTED);
+      expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/^中断した PC: #0000/));
+    } finally {
+      if (original !== undefined) {
+        globals.AbortController = original;
+      }
+    }
+  });
+});
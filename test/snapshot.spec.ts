@@ -0,0 +1,111 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { ObjectFile, createObjectFile } from "../src/object_file";
+import { createSnapshot, restoreSnapshot, serializeSnapshot, parseSnapshot } from "../src/snapshot";
+
+const PROGRAM = [
+  'MAIN\tSTART',
+  '\tIN\tBUF,LEN',
+  '\tLAD\tGR1,0',
+  'LOOP\tADDA\tGR1,=1',
+  '\tPUSH\t0,GR1',
+  '\tPOP\tGR2',
+  '\tCPA\tGR1,=100',
+  '\tJMI\tLOOP',
+  '\tST\tGR1,BUF',
+  '\tIN\tBUF,LEN',
+  '\tOUT\tBUF,LEN',
+  '\tRET',
+  'BUF\tDS\t8',
+  'LEN\tDS\t1',
+  '\tEND',
+];
+
+function createMachine(input: string[], output: string[]): { memory: Memory, register: Register, machine: Machine } {
+  const memory = new Memory();
+  const register = new Register();
+  const io = new IO(async () => {
+    const value = input.shift();
+    return value === undefined ? null : value;
+  }, async (value: string) => {
+    output.push(value);
+  });
+  return { memory, register, machine: new Machine(memory, register, io) };
+}
+
+function compile(memory: Memory): { object: ObjectFile, entryAddr: number } {
+  const source = parseSource(PROGRAM.join("\n"));
+  const compiler = new Compiler(memory, 0, source, {});
+  const entryAddr = compiler.compile();
+  return { object: createObjectFile(compiler, memory, source), entryAddr };
+}
+
+describe('snapshot', () => {
+  it('continues execution from a restored snapshot', async () => {
+    const expectedOutput: string[] = [];
+    const expected = createMachine(['first', 'second'], expectedOutput);
+    const expectedResult = await expected.machine.execute(compile(expected.memory).entryAddr);
+
+    const output: string[] = [];
+    const first = createMachine(['first'], output);
+    const { object, entryAddr } = compile(first.memory);
+    const stopped = await first.machine.execute(entryAddr, { maxSteps: 50 });
+    expect(stopped.reason).toBe('step-limit');
+    const snapshot = createSnapshot(first.machine, first.memory, first.register, {
+      inputs: ['second'], program: object
+    });
+    const parsed = parseSnapshot(serializeSnapshot(snapshot));
+    expect(parsed).toEqual(snapshot);
+    expect(parsed.steps).toBe(50);
+    expect(parsed.inputs).toEqual(['second']);
+    expect(parsed.program).toEqual(object);
+
+    const second = createMachine([], output);
+    restoreSnapshot(parsed, second.machine, second.memory, second.register);
+    expect(second.register.toString()).toBe(first.register.toString());
+    const result = await second.machine.resume();
+    expect(result).toEqual(expectedResult);
+    expect(output).toEqual(expectedOutput);
+    expect(second.register.toString()).toBe(expected.register.toString());
+    expect(second.memory.dump()).toEqual(expected.memory.dump());
+  });
+
+  it('counts the step limit including the steps before the snapshot', async () => {
+    const first = createMachine(['a', 'b'], []);
+    await first.machine.execute(compile(first.memory).entryAddr, { maxSteps: 50 });
+    const second = createMachine([], []);
+    restoreSnapshot(createSnapshot(first.machine, first.memory, first.register), second.machine, second.memory, second.register);
+    const result = await second.machine.resume({ maxSteps: 80 });
+    expect(result.reason).toBe('step-limit');
+    expect(result.steps).toBe(80);
+  });
+
+  it('keeps the strict mode and the protected ranges', async () => {
+    const first = createMachine([], []);
+    const { entryAddr } = compile(first.memory);
+    first.memory.setStrictMode(true);
+    first.memory.protect(0, 4);
+    first.memory.protect(6, 2);
+    await first.machine.execute(entryAddr, { maxSteps: 1 });
+    const snapshot = createSnapshot(first.machine, first.memory, first.register);
+    expect(snapshot.strict).toBe(true);
+    expect(snapshot.protectedRanges).toEqual([{ address: 0, size: 4 }, { address: 6, size: 2 }]);
+
+    const second = createMachine([], []);
+    restoreSnapshot(snapshot, second.machine, second.memory, second.register);
+    expect(second.memory.isStrictMode()).toBe(true);
+    expect(second.memory.protectedRanges()).toEqual(snapshot.protectedRanges);
+    expect(() => second.memory.getValueAt(0xF000)).toThrow('未初期化の番地の読み出し');
+  });
+
+  it('rejects broken or unsupported snapshots', () => {
+    expect(() => parseSnapshot('{')).toThrow('不正なスナップショット');
+    expect(() => parseSnapshot('{"format":"comet2-object","version":1}')).toThrow('不正なスナップショット');
+    expect(() => parseSnapshot('{"format":"comet2-snapshot","version":2}')).toThrow('未対応のスナップショットのバージョン 2');
+    expect(() => parseSnapshot('{"format":"comet2-snapshot","version":1,"registers":{"PC":0}}')).toThrow('不正なスナップショット');
+  });
+});
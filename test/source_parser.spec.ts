@@ -0,0 +1,46 @@
+import { parseLine, parseLines } from "../src/source_parser";
+
+describe('parseLine', () => {
+  it('splits free format fields with their columns', () => {
+    const line = parseLine('LOOP    LD   GR1, DATA, GR2   ; 読み込み');
+    expect(line.label).toEqual({ value: 'LOOP', column: 1 });
+    expect(line.instruction).toEqual({ value: 'LD', column: 9 });
+    expect(line.operands).toEqual([
+      { value: 'GR1', column: 14 },
+      { value: 'DATA', column: 19 },
+      { value: 'GR2', column: 25 },
+    ]);
+    expect(line.comment).toEqual({ value: '; 読み込み', column: 31 });
+  });
+
+  it('keeps separators inside quoted strings', () => {
+    const line = parseLine("MSG\tDC\t'a;b, c''d', #0041 ;comment");
+    expect(line.operands.map(operand => operand.value)).toEqual(["'a;b, c''d'", '#0041']);
+    expect(line.comment?.value).toBe(';comment');
+  });
+
+  it('treats lines starting with a blank as having no label', () => {
+    const line = parseLine('\tRET');
+    expect(line.label).toBeNull();
+    expect(line.instruction?.value).toBe('RET');
+    expect(line.operands).toEqual([]);
+  });
+
+  it('recognizes comment only lines', () => {
+    expect(parseLine('; 注釈').instruction).toBeNull();
+    expect(parseLine('   ; 注釈').comment).toEqual({ value: '; 注釈', column: 4 });
+    expect(parseLine('').instruction).toBeNull();
+  });
+
+  it('treats text after the operand field as a comment', () => {
+    const line = parseLine('\tJUMP\tLOOP  back to loop');
+    expect(line.operands.map(operand => operand.value)).toEqual(['LOOP']);
+    expect(line.comment?.value).toBe('back to loop');
+  });
+});
+
+describe('parseLines', () => {
+  it('handles CRLF line breaks', () => {
+    expect(parseLines('MAIN START\r\n RET\r\n END\r\n').map(line => line.instruction?.value)).toEqual(['START', 'RET', 'END']);
+  });
+});
@@ -0,0 +1,103 @@
+import { parseSource } from "../src/utils";
+import { parseTestSpec, runTestSpec, runTestCase } from "../src/test_runner";
+
+describe('test runner', () => {
+  const source = parseSource([
+    'MAIN\tSTART',
+    '\tIN\tBUF,LEN',
+    '\tLD\tGR1,LEN',
+    '\tST\tGR1,ANS',
+    '\tOUT\tBUF,LEN',
+    '\tRET',
+    'BUF\tDS\t8',
+    'LEN\tDS\t1',
+    'ANS\tDS\t1',
+    '\tEND',
+  ].join("\n"));
+
+  it('parses cases with inputs, outputs and expectations', () => {
+    const spec = parseTestSpec([
+      '; 注釈',
+      'source main.cas',
+      'max-steps 100',
+      'case echo',
+      'in AB C',
+      'out AB C',
+      'expect ANS == 4',
+      'expect BUF[1] == \'B\'',
+      'expect ZF == 0',
+      'case no output check',
+    ].join("\n"), 'main.spec');
+    expect(spec.sources).toEqual(['main.cas']);
+    expect(spec.maxSteps).toBe(100);
+    expect(spec.strict).toBe(false);
+    expect(spec.cases).toEqual([
+      {
+        name: 'echo',
+        line: 4,
+        inputs: ['AB C'],
+        outputs: ['AB C'],
+        expectations: [
+          { target: 'ANS', offset: 0, expected: 4, line: 7 },
+          { target: 'BUF', offset: 1, expected: 0x42, line: 8 },
+          { target: 'ZF', offset: 0, expected: 0, line: 9 },
+        ]
+      },
+      { name: 'no output check', line: 10, inputs: [], outputs: null, expectations: [] },
+    ]);
+    expect(() => parseTestSpec('source a.cas\nexpect GR1 = 1', 'a.spec')).toThrow('a.spec:2: 不正な期待値 GR1 = 1');
+    expect(() => parseTestSpec('out 1')).toThrow('<spec>:1: sourceがない');
+  });
+
+  it('reports pass and fail with diffs', async () => {
+    const spec = parseTestSpec([
+      'source main.cas',
+      'case pass',
+      'in XYZ',
+      'out XYZ',
+      'expect ANS == 3',
+      'expect GR1 == 3',
+      'case fail',
+      'in XY',
+      'out XYZ',
+      'expect ANS == 3',
+      'expect NONE == 0',
+    ].join("\n"));
+    const results = await runTestSpec(spec, source);
+    expect(results).toEqual([
+      { name: 'pass', passed: true, failures: [] },
+      {
+        name: 'fail',
+        passed: false,
+        failures: [
+          '出力が異なる',
+          '- XYZ',
+          '+ XY',
+          'ANS: 期待値 3 (#0003) 実際 2 (#0002)',
+          'NONE: 未定義のラベル NONE',
+        ]
+      },
+    ]);
+  });
+
+  it('fails only the case whose input cannot be read', async () => {
+    const spec = parseTestSpec([
+      'source main.cas',
+      'case invalid input',
+      'in あ',
+      'case pass',
+      'in XYZ',
+      'expect ANS == 3',
+    ].join("\n"));
+    const results = await runTestSpec(spec, source);
+    expect(results).toEqual([
+      { name: 'invalid input', passed: false, failures: ['実行時エラー 不正な入力 あ at #0008'] },
+      { name: 'pass', passed: true, failures: [] },
+    ]);
+  });
+
+  it('stops programs that run too long', async () => {
+    const result = await runTestCase(parseSource('MAIN\tSTART\nLOOP\tJUMP\tLOOP\n\tEND'), { name: 'loop', line: 1, inputs: [], outputs: null, expectations: [] }, 50);
+    expect(result.failures).toEqual(['実行する命令数が上限(50)を超えた PC: #0000']);
+  });
+});
@@ -0,0 +1,74 @@
+import { Memory } from "../src/memory";
+import { Register } from "../src/register";
+import { Compiler } from "../src/compiler";
+import { Machine } from "../src/machine";
+import { IO } from "../src/io";
+import { parseSource } from "../src/utils";
+import { symbolNamesOf } from "../src/disassembler";
+import { Tracer, TraceFilter } from "../src/tracer";
+
+async function trace(lines: string[], filter: TraceFilter = {}): Promise<Tracer> {
+  const memory = new Memory();
+  const register = new Register();
+  const compiler = new Compiler(memory, 0, parseSource(lines.join("\n")), {});
+  const entryAddr = compiler.compile();
+  const tracer = new Tracer(filter, symbolNamesOf(compiler.symbols()), new Set(compiler.relocations()));
+  const machine = new Machine(memory, register, new IO(async () => null, async () => {}));
+  machine.setTracer(tracer);
+  await machine.execute(entryAddr);
+  return tracer;
+}
+
+describe('Tracer', () => {
+  const program = [
+    'MAIN\tSTART',
+    '\tLAD\tGR2,1',
+    '\tLD\tGR1,DATA,GR2',
+    '\tSUBA\tGR1,=1',
+    '\tPUSH\t0,GR1',
+    '\tPOP\tGR3',
+    '\tST\tGR3,DATA',
+    '\tRET',
+    'DATA\tDC\t5,0',
+    '\tEND',
+  ];
+
+  it('records decoded instructions with their effects', async () => {
+    const records = (await trace(program)).records();
+    expect(records.map(record => record.instruction)).toEqual([
+      'LAD GR2,#0001', 'LD GR1,DATA,GR2', 'SUBA GR1,#000E', 'PUSH #0000,GR1', 'POP GR3', 'ST GR3,DATA'
+    ]);
+    expect(records[1]).toEqual({
+      step: 2,
+      address: 2,
+      words: [0x1012, 12],
+      mnemonic: 'LD',
+      instruction: 'LD GR1,DATA,GR2',
+      effectiveAddress: 13,
+      registers: {},
+      flags: { ZF: 1 },
+      memory: []
+    });
+    expect(records[2].registers).toEqual({ GR1: 0xFFFF });
+    expect(records[2].flags).toEqual({ SF: 1, ZF: 0 });
+    expect(records[3].registers).toEqual({ SP: 0xFFFF });
+    expect(records[3].memory).toEqual([{ address: 0xFFFF, value: 0xFFFF }]);
+    expect(records[5].memory).toEqual([{ address: 12, value: 0xFFFF }]);
+  });
+
+  it('filters by address range and instruction kind', async () => {
+    expect((await trace(program, { from: 4, to: 8 })).records().map(record => record.step)).toEqual([3, 4, 5]);
+    expect((await trace(program, { kinds: ['stack'] })).records().map(record => record.mnemonic)).toEqual(['PUSH', 'POP']);
+  });
+
+  it('exports JSON Lines and text', async () => {
+    const tracer = await trace(program, { mnemonics: ['SUBA', 'ST'] });
+    const lines = tracer.toJSONLines().trim().split("\n").map(line => JSON.parse(line));
+    expect(lines.map(line => line.mnemonic)).toEqual(['SUBA', 'ST']);
+    expect(tracer.toText()).toEqual([
+      '     3 0004: SUBA GR1,#000E       EA=000E GR1=FFFF SF=1 ZF=0',
+      '     6 0009: ST GR3,DATA          EA=000C [000C]=FFFF',
+      ''
+    ].join("\n"));
+  });
+});
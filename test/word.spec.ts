@@ -0,0 +1,44 @@
+import {
+  toSigned, flagsOf, addArithmetic, subtractArithmetic, addLogical, subtractLogical,
+  compareArithmetic, compareLogical, shiftLeftArithmetic, shiftRightArithmetic, shiftLeftLogical, shiftRightLogical
+} from "../src/word";
+
+describe('word', () => {
+  it('interprets words as two\'s complement', () => {
+    expect(toSigned(0xFFFF)).toBe(-1);
+    expect(toSigned(0x7FFF)).toBe(32767);
+    expect(toSigned(0x8000)).toBe(-32768);
+  });
+
+  it('detects signed overflow on arithmetic operations', () => {
+    expect(addArithmetic(0x7FFF, 1)).toEqual({ value: 0x8000, overflow: 1 });
+    expect(addArithmetic(0xFFFF, 1)).toEqual({ value: 0, overflow: 0 });
+    expect(subtractArithmetic(0x8000, 1)).toEqual({ value: 0x7FFF, overflow: 1 });
+    expect(subtractArithmetic(1, 2)).toEqual({ value: 0xFFFF, overflow: 0 });
+  });
+
+  it('detects carry and borrow on logical operations', () => {
+    expect(addLogical(0xFFFF, 1)).toEqual({ value: 0, overflow: 1 });
+    expect(addLogical(0x7FFF, 1)).toEqual({ value: 0x8000, overflow: 0 });
+    expect(subtractLogical(1, 2)).toEqual({ value: 0xFFFF, overflow: 1 });
+  });
+
+  it('derives SF and ZF from the result word', () => {
+    expect(flagsOf({ value: 0x8000, overflow: 1 })).toEqual({ overflow: 1, sign: 1, zero: 0 });
+    expect(flagsOf({ value: 0, overflow: 0 })).toEqual({ overflow: 0, sign: 0, zero: 1 });
+  });
+
+  it('compares as signed or unsigned', () => {
+    expect(compareArithmetic(0xFFFF, 1)).toEqual({ overflow: 0, sign: 1, zero: 0 });
+    expect(compareLogical(0xFFFF, 1)).toEqual({ overflow: 0, sign: 0, zero: 0 });
+    expect(compareLogical(5, 5)).toEqual({ overflow: 0, sign: 0, zero: 1 });
+  });
+
+  it('sets OF to the last bit shifted out', () => {
+    expect(shiftLeftArithmetic(0xC001, 1)).toEqual({ value: 0x8002, overflow: 1 });
+    expect(shiftRightArithmetic(0x8001, 1)).toEqual({ value: 0xC000, overflow: 1 });
+    expect(shiftLeftLogical(0x8001, 1)).toEqual({ value: 0x0002, overflow: 1 });
+    expect(shiftRightLogical(0x8001, 16)).toEqual({ value: 0, overflow: 1 });
+    expect(shiftRightLogical(0x8001, 0)).toEqual({ value: 0x8001, overflow: 0 });
+  });
+});